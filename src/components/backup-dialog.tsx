@@ -0,0 +1,206 @@
+import { ArchiveIcon, WarningIcon } from "@phosphor-icons/react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  type Backup,
+  BackupError,
+  createBackup,
+  readBackup,
+} from "../lib/backup";
+import { downloadBlob } from "../lib/clipboard/copy";
+import {
+  type CollisionStrategy,
+  getAllCharts,
+  getSaveErrorMessage,
+  getTrashedCharts,
+  importChartRecords,
+} from "../lib/storage";
+import { cn } from "../lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./ui/alert-dialog";
+import { Button } from "./ui/button";
+
+export function BackupDialog() {
+  const [open, setOpen] = useState(false);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  // Ids in the backup that are already stored in this browser
+  const [collisions, setCollisions] = useState(0);
+  const [strategy, setStrategy] = useState<CollisionStrategy>("skip");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setBackup(null);
+      setError(null);
+    }
+  };
+
+  const handleExport = async () => {
+    const date = new Date().toISOString().slice(0, 10);
+    try {
+      downloadBlob(await createBackup(), `baganify-backup-${date}.zip`);
+    } catch (err) {
+      console.error("Failed to create backup", err);
+      toast.error("Failed to create backup");
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    setBackup(null);
+    setError(null);
+    try {
+      const read = await readBackup(file);
+      const stored = [...(await getAllCharts()), ...(await getTrashedCharts())];
+      const storedIds = new Set(stored.map((meta) => meta.id));
+      setCollisions(
+        read.records.filter((record) => storedIds.has(record.meta.id)).length
+      );
+      setBackup(read);
+    } catch (err) {
+      if (err instanceof BackupError) {
+        setError(err.message);
+        return;
+      }
+      console.error("Failed to read backup", err);
+      setError("Failed to read backup");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backup) {
+      return;
+    }
+    try {
+      const count = await importChartRecords(backup.records, strategy);
+      toast.success(`Restored ${count} ${count === 1 ? "chart" : "charts"}`);
+    } catch (err) {
+      toast.error(getSaveErrorMessage(err));
+      return;
+    }
+    handleOpenChange(false);
+  };
+
+  const chartCount = backup?.records.length ?? 0;
+
+  return (
+    <AlertDialog onOpenChange={handleOpenChange} open={open}>
+      <AlertDialogTrigger className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-gray-600 transition-all hover:bg-gray-200/50 hover:text-gray-900">
+        <ArchiveIcon className="text-gray-500" size={16} />
+        <span>Backup</span>
+      </AlertDialogTrigger>
+      <AlertDialogContent className="text-xs sm:max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Backup and restore</AlertDialogTitle>
+          <AlertDialogDescription>
+            Charts are only stored in this browser. Save every chart, including
+            its versions and the trash, to a single file you can restore here or
+            in another browser.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Button onClick={handleExport} size="sm" variant="outline">
+              Export all charts
+            </Button>
+            <label className="cursor-pointer rounded-md border border-gray-200 bg-gray-50 px-3 py-1.5 text-gray-700 transition-colors hover:bg-white">
+              Import backup
+              <input
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={handleFile}
+                type="file"
+              />
+            </label>
+          </div>
+
+          {error && (
+            <p className="flex items-center gap-1.5 text-red-600">
+              <WarningIcon className="flex-none" size={12} />
+              {error}
+            </p>
+          )}
+
+          {backup && (
+            <p className="text-gray-600">
+              {chartCount} {chartCount === 1 ? "chart" : "charts"}
+              {backup.exportedAt > 0 &&
+                `, saved ${new Date(backup.exportedAt).toLocaleString()}`}
+              .
+            </p>
+          )}
+
+          {backup && collisions > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-gray-600">
+                {collisions} {collisions === 1 ? "chart is" : "charts are"}{" "}
+                already in this browser:
+              </p>
+              <CollisionToggle onChange={setStrategy} strategy={strategy} />
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel size="sm">Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={chartCount === 0}
+            onClick={handleImport}
+            size="sm"
+          >
+            Restore {chartCount} {chartCount === 1 ? "chart" : "charts"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function CollisionToggle({
+  strategy,
+  onChange,
+}: {
+  strategy: CollisionStrategy;
+  onChange: (strategy: CollisionStrategy) => void;
+}) {
+  const options: { value: CollisionStrategy; label: string }[] = [
+    { value: "skip", label: "Keep mine" },
+    { value: "overwrite", label: "Replace with backup" },
+    { value: "duplicate", label: "Keep both" },
+  ];
+
+  return (
+    <div className="flex gap-0.5 rounded-md bg-gray-100 p-0.5">
+      {options.map((opt) => (
+        <button
+          className={cn(
+            "flex h-7 flex-1 items-center justify-center rounded-sm transition-all",
+            strategy === opt.value
+              ? "bg-white text-black shadow-sm"
+              : "text-gray-500 hover:bg-black/5 hover:text-gray-700"
+          )}
+          key={opt.value}
+          onClick={() => onChange(opt.value)}
+          type="button"
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,25 @@
 import { useEffect, useRef, useState } from "react";
-import { copyShapesToClipboard } from "../lib/clipboard/copy";
-import type { ElbowConnectorShape, Shape } from "../lib/shapes/types";
-import { boundsIntersect } from "../lib/shapes/types";
+import {
+  copyShapesToClipboard,
+  getSelectionShapes,
+} from "../lib/clipboard/copy";
+import { readClipboard } from "../lib/clipboard/paste";
+import { canReparent, getSiblingConnectors } from "../lib/layout/algorithm";
+import { formatOutline, shapesToOutline } from "../lib/outline";
+import { hasPersonCard, layoutCard } from "../lib/shapes/card";
+import {
+  getLabelInset,
+  LABEL_LINE_HEIGHT,
+  layoutLabel,
+} from "../lib/shapes/label";
+import { LABEL_FONT_FAMILY } from "../lib/shapes/measure";
+import type {
+  ElbowConnectorShape,
+  EllipseShape,
+  RectangleShape,
+  Shape,
+} from "../lib/shapes/types";
+import { boundsIntersect, DEFAULT_LABEL } from "../lib/shapes/types";
 import { useShapeStore } from "../lib/store/shapes";
 import { Toast } from "./toast";
 
@@ -12,6 +30,32 @@ interface SelectionRect {
   currentY: number;
 }
 
+// Where a dragged box would land: under a new parent, or at `index` among
+// its siblings, marked by a line between the neighbours
+type Drop =
+  | { kind: "parent"; targetId: string }
+  | {
+      kind: "order";
+      index: number;
+      line: { x1: number; y1: number; x2: number; y2: number };
+    };
+
+// A box being dragged, in canvas coordinates
+interface BoxDrag {
+  shapeId: string;
+  x: number;
+  y: number;
+  drop: Drop | null;
+}
+
+// How far the pointer must move before a press on a box becomes a drag
+const DRAG_THRESHOLD = 4;
+// Share of a sibling's width (height in a stack) at either end where
+// dropping reorders instead of reparenting
+const SIBLING_EDGE = 0.25;
+// Distance of the insertion line before the first or after the last sibling
+const INSERT_OFFSET = 8;
+
 function isInputTarget(e: KeyboardEvent) {
   const target = e.target as HTMLElement;
   return (
@@ -37,6 +81,9 @@ export function Canvas() {
     setCanvasSize,
     viewport,
     setViewport,
+    updateLabels,
+    reparentShape,
+    moveSibling,
   } = useShapeStore();
 
   const shapes = shapeIds.map((id) => shapesRecord[id]);
@@ -48,6 +95,14 @@ export function Canvas() {
   );
   const [toast, setToast] = useState({ visible: false, message: "" });
   const [isPanning, setIsPanning] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<BoxDrag | null>(null);
+  // Where a press on a box started, until it turns into a drag
+  const pressedBox = useRef<{
+    shapeId: string;
+    clientX: number;
+    clientY: number;
+  } | null>(null);
   const lastMousePos = useRef({ x: 0, y: 0 });
   const isSpacePressed = useRef(false);
 
@@ -138,9 +193,9 @@ export function Canvas() {
     (async () => {
       const { shapes: currentShapes, selectedIds: currentSelectedIds } =
         useShapeStore.getState();
-      const shapesArray = Object.values(currentShapes);
-      const selectedShapes = shapesArray.filter((s) =>
-        currentSelectedIds.has(s.id)
+      const selectedShapes = getSelectionShapes(
+        Object.values(currentShapes),
+        currentSelectedIds
       );
       if (selectedShapes.length > 0) {
         try {
@@ -160,8 +215,33 @@ export function Canvas() {
       return false;
     }
     e.preventDefault();
-    pasteClipboard();
-    setToast({ visible: true, message: "Pasted from clipboard" });
+
+    // Prefer the system clipboard so copies from other tabs and apps paste
+    (async () => {
+      const { clipboard, pasteShapes, pasteOutline } = useShapeStore.getState();
+      try {
+        const content = await readClipboard();
+        if (content?.type === "shapes") {
+          pasteShapes(content.shapes);
+        } else if (
+          content?.type === "outline" &&
+          // Our own copy, where the custom format is unsupported: keep styling
+          content.text !== formatOutline(shapesToOutline(clipboard))
+        ) {
+          pasteOutline(content.text);
+        } else {
+          pasteClipboard();
+        }
+        setToast({ visible: true, message: "Pasted from clipboard" });
+      } catch (err) {
+        console.error("Failed to paste", err);
+        pasteClipboard();
+        setToast({
+          visible: true,
+          message: "Couldn't read the clipboard, pasted the last copy",
+        });
+      }
+    })();
     return true;
   };
 
@@ -193,6 +273,43 @@ export function Canvas() {
     return false;
   };
 
+  // Alt+Arrow moves the selected box along its row, or up and down a stack
+  const handleReorder = (e: KeyboardEvent) => {
+    if (!(e.altKey && e.key.startsWith("Arrow"))) {
+      return false;
+    }
+    const {
+      shapes: current,
+      shapeIds: ids,
+      selectedIds: selected,
+    } = useShapeStore.getState();
+    const [shapeId] = selected;
+    const connectors =
+      selected.size === 1
+        ? getSiblingConnectors(
+            shapeId,
+            ids.map((id) => current[id])
+          )
+        : null;
+    const parentId = connectors?.[0]?.startBinding?.shapeId;
+    if (!(connectors && parentId)) {
+      return false;
+    }
+    const [back, forward] =
+      current[parentId]?.childLayout === "vertical"
+        ? ["ArrowUp", "ArrowDown"]
+        : ["ArrowLeft", "ArrowRight"];
+    if (e.key !== back && e.key !== forward) {
+      return false;
+    }
+    e.preventDefault();
+    const index = connectors.findIndex(
+      (c) => c.endBinding?.shapeId === shapeId
+    );
+    moveSibling(shapeId, e.key === back ? index - 1 : index + 1);
+    return true;
+  };
+
   const handleDelete = (e: KeyboardEvent) => {
     if (e.key !== "Delete" && e.key !== "Backspace") {
       return false;
@@ -217,6 +334,7 @@ export function Canvas() {
       handleCopy(e) ||
       handlePaste(e) ||
       handleHistory(e) ||
+      handleReorder(e) ||
       handleDelete(e)
     ) {
       return;
@@ -354,6 +472,29 @@ export function Canvas() {
     }
   };
 
+  const updateDrag = (e: React.MouseEvent) => {
+    const pressed = pressedBox.current;
+    if (!pressed) {
+      return;
+    }
+    if (
+      !drag &&
+      Math.hypot(e.clientX - pressed.clientX, e.clientY - pressed.clientY) <
+        DRAG_THRESHOLD
+    ) {
+      return;
+    }
+    const svgP = getSVGPoint(e.clientX, e.clientY);
+    if (!svgP) {
+      return;
+    }
+    setDrag({
+      shapeId: pressed.shapeId,
+      ...svgP,
+      drop: findDrop(shapes, pressed.shapeId, svgP.x, svgP.y),
+    });
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
     if (isPanning) {
       const dx = e.clientX - lastMousePos.current.x;
@@ -363,6 +504,11 @@ export function Canvas() {
       return;
     }
 
+    if (pressedBox.current) {
+      updateDrag(e);
+      return;
+    }
+
     if (!selectionRect) {
       return;
     }
@@ -373,7 +519,28 @@ export function Canvas() {
     setSelectionRect({ ...selectionRect, currentX: svgP.x, currentY: svgP.y });
   };
 
+  // Leaving the canvas cancels a box drag instead of dropping it
+  const handleMouseLeave = () => {
+    if (pressedBox.current || drag) {
+      pressedBox.current = null;
+      setDrag(null);
+      return;
+    }
+    handleMouseUp();
+  };
+
   const handleMouseUp = () => {
+    pressedBox.current = null;
+    if (drag) {
+      setDrag(null);
+      if (drag.drop?.kind === "parent") {
+        reparentShape(drag.shapeId, drag.drop.targetId);
+      } else if (drag.drop?.kind === "order") {
+        moveSibling(drag.shapeId, drag.drop.index);
+      }
+      return;
+    }
+
     if (isPanning) {
       setIsPanning(false);
       document.body.style.cursor = "grab"; // Revert to grab if space is held, logic handled by key events mostly
@@ -403,15 +570,42 @@ export function Canvas() {
     }
   };
 
-  // ... (handleShapeClick, etc remain same, just update deps) ...
+  // Pressing a box may start dragging it onto a new parent
+  const handleShapeMouseDown = (e: React.MouseEvent, shape: Shape) => {
+    if (
+      e.button === 0 &&
+      !isSpacePressed.current &&
+      (shape.type === "rectangle" || shape.type === "ellipse")
+    ) {
+      pressedBox.current = {
+        shapeId: shape.id,
+        clientX: e.clientX,
+        clientY: e.clientY,
+      };
+    }
+  };
 
-  // Click to select (no dragging in org chart mode)
+  // Click to select; boxes are only moved by dropping them onto a new parent
   const handleShapeClick = (e: React.MouseEvent, shape: Shape) => {
     e.stopPropagation();
     const isMultiSelect = e.shiftKey || e.metaKey || e.ctrlKey;
     selectShape(shape.id, isMultiSelect);
   };
 
+  const handleShapeDoubleClick = (e: React.MouseEvent, shape: Shape) => {
+    e.stopPropagation();
+    if (shape.type !== "rectangle" && shape.type !== "ellipse") {
+      return;
+    }
+    selectShape(shape.id);
+    // Person cards are edited from the property panel
+    if (!hasPersonCard(shape)) {
+      setEditingId(shape.id);
+    }
+  };
+
+  const editingShape = editingId ? shapesRecord[editingId] : undefined;
+
   return (
     <div
       className="absolute inset-0 overflow-hidden bg-[#fafafa]"
@@ -428,10 +622,11 @@ export function Canvas() {
         data-canvas="true"
         height={size.height}
         onMouseDown={handleMouseDown}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         ref={svgRef}
+        style={drag ? { cursor: "grabbing" } : undefined}
         width={size.width}
       >
         <title>Canvas</title>
@@ -454,13 +649,29 @@ export function Canvas() {
 
           {shapes.map((shape) => (
             <ShapeRenderer
+              isEditing={editingId === shape.id}
               isSelected={selectedIds.has(shape.id)}
               key={shape.id}
               onClick={(e) => handleShapeClick(e, shape)}
+              onDoubleClick={(e) => handleShapeDoubleClick(e, shape)}
+              onMouseDown={(e) => handleShapeMouseDown(e, shape)}
               shape={shape}
             />
           ))}
 
+          {drag && (
+            <DragPreview
+              drag={drag}
+              shape={shapesRecord[drag.shapeId]}
+              target={
+                drag.drop?.kind === "parent"
+                  ? shapesRecord[drag.drop.targetId]
+                  : undefined
+              }
+              zoom={viewport.zoom}
+            />
+          )}
+
           {selectionRect && (
             <rect
               fill="rgba(0, 100, 200, 0.08)"
@@ -475,6 +686,21 @@ export function Canvas() {
           )}
         </g>
       </svg>
+      {(editingShape?.type === "rectangle" ||
+        editingShape?.type === "ellipse") && (
+        <LabelEditor
+          key={editingShape.id}
+          onCancel={() => setEditingId(null)}
+          onCommit={(text) => {
+            setEditingId(null);
+            if (text !== (editingShape.label?.text ?? "")) {
+              updateLabels([editingShape.id], { text });
+            }
+          }}
+          shape={editingShape}
+          viewport={viewport}
+        />
+      )}
       <Toast
         message={toast.message}
         onClose={() => setToast({ ...toast, visible: false })}
@@ -489,13 +715,324 @@ export function Canvas() {
   );
 }
 
+interface LabelEditorProps {
+  shape: RectangleShape | EllipseShape;
+  viewport: { x: number; y: number; zoom: number };
+  onCommit: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Textarea overlay positioned over the box in screen coordinates
+function LabelEditor({
+  shape,
+  viewport,
+  onCommit,
+  onCancel,
+}: LabelEditorProps) {
+  const label = { ...DEFAULT_LABEL, ...shape.label };
+  const [text, setText] = useState(label.text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isCancelled = useRef(false);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+    textareaRef.current?.select();
+  }, []);
+
+  const inset = getLabelInset(shape) * viewport.zoom;
+  const lineCount = text.split("\n").length;
+  const lineHeight = label.fontSize * LABEL_LINE_HEIGHT * viewport.zoom;
+  const contentHeight = lineCount * lineHeight;
+  const boxHeight = shape.height * viewport.zoom;
+
+  return (
+    <textarea
+      className="absolute resize-none overflow-hidden bg-transparent outline-none"
+      onBlur={() => {
+        if (!isCancelled.current) {
+          onCommit(text);
+        }
+      }}
+      onChange={(e) => setText(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.stopPropagation();
+          isCancelled.current = true;
+          onCancel();
+        } else if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+          e.preventDefault();
+          e.currentTarget.blur();
+        }
+      }}
+      ref={textareaRef}
+      rows={lineCount}
+      style={{
+        left: viewport.x + shape.x * viewport.zoom + inset,
+        top:
+          viewport.y +
+          shape.y * viewport.zoom +
+          Math.max(0, (boxHeight - contentHeight) / 2),
+        width: shape.width * viewport.zoom - inset * 2,
+        height: Math.min(contentHeight, boxHeight),
+        color: label.color,
+        fontFamily: LABEL_FONT_FAMILY,
+        fontSize: label.fontSize * viewport.zoom,
+        fontWeight: label.fontWeight,
+        lineHeight: `${lineHeight}px`,
+        textAlign: label.align,
+      }}
+      value={text}
+    />
+  );
+}
+
+// A person card takes the place of the free-text label
+function ShapeContent({ shape }: { shape: RectangleShape | EllipseShape }) {
+  const card = layoutCard(shape);
+  if (!card) {
+    return <ShapeLabelText shape={shape} />;
+  }
+
+  const { avatar } = card;
+  return (
+    <g pointerEvents="none">
+      {avatar && (
+        <>
+          <clipPath id={avatar.clipId}>
+            <circle
+              cx={avatar.x + avatar.size / 2}
+              cy={avatar.y + avatar.size / 2}
+              r={avatar.size / 2}
+            />
+          </clipPath>
+          <image
+            clipPath={`url(#${avatar.clipId})`}
+            height={avatar.size}
+            href={avatar.href}
+            preserveAspectRatio="xMidYMid slice"
+            width={avatar.size}
+            x={avatar.x}
+            y={avatar.y}
+          />
+        </>
+      )}
+      <text
+        fill={card.color}
+        fontFamily={LABEL_FONT_FAMILY}
+        textAnchor={card.anchor}
+      >
+        {card.lines.map((line) => (
+          <tspan
+            fillOpacity={line.opacity}
+            fontSize={line.fontSize}
+            fontWeight={line.fontWeight}
+            key={line.y}
+            x={line.x}
+            y={line.y}
+          >
+            {line.text}
+          </tspan>
+        ))}
+      </text>
+    </g>
+  );
+}
+
+function ShapeLabelText({ shape }: { shape: RectangleShape | EllipseShape }) {
+  const layout = layoutLabel(shape);
+  if (!layout) {
+    return null;
+  }
+
+  return (
+    <text
+      fill={layout.color}
+      fontFamily={LABEL_FONT_FAMILY}
+      fontSize={layout.fontSize}
+      fontWeight={layout.fontWeight}
+      pointerEvents="none"
+      textAnchor={layout.anchor}
+      xmlSpace="preserve"
+    >
+      {layout.lines.map((line, index) => (
+        // biome-ignore lint/suspicious/noArrayIndexKey: lines have no identity besides their position
+        <tspan key={index} x={line.x} y={line.y}>
+          {line.text}
+        </tspan>
+      ))}
+    </text>
+  );
+}
+
+const isBox = (s: Shape | undefined): s is RectangleShape | EllipseShape =>
+  s?.type === "rectangle" || s?.type === "ellipse";
+
+// Dropping on a box moves the dragged one under it, except near the ends of
+// a sibling, where (as in the gaps around the siblings) it reorders them
+function findDrop(
+  shapes: Shape[],
+  shapeId: string,
+  x: number,
+  y: number
+): Drop | null {
+  const connectors = getSiblingConnectors(shapeId, shapes) ?? [];
+  const parentId = connectors[0]?.startBinding?.shapeId;
+  const vertical =
+    shapes.find((s) => s.id === parentId)?.childLayout === "vertical";
+  const siblingIds = new Set(connectors.map((c) => c.endBinding?.shapeId));
+  const over = shapes.find(
+    (s) =>
+      isBox(s) &&
+      x >= s.x &&
+      x <= s.x + s.width &&
+      y >= s.y &&
+      y <= s.y + s.height
+  );
+  if (
+    isBox(over) &&
+    !(siblingIds.has(over.id) && isNearEnd(over, x, y, vertical))
+  ) {
+    return canReparent(shapeId, over.id, shapes)
+      ? { kind: "parent", targetId: over.id }
+      : null;
+  }
+  // Siblings in layout order, which follows the connectors
+  const ordered = connectors
+    .map((c) => shapes.find((s) => s.id === c.endBinding?.shapeId))
+    .filter(isBox);
+  return findSiblingDrop(
+    ordered,
+    shapeId,
+    vertical ? y : x,
+    vertical ? x : y,
+    vertical
+  );
+}
+
+function isNearEnd(
+  box: RectangleShape | EllipseShape,
+  x: number,
+  y: number,
+  vertical: boolean
+) {
+  const offset = vertical ? y - box.y : x - box.x;
+  const size = vertical ? box.height : box.width;
+  return offset < size * SIBLING_EDGE || offset > size * (1 - SIBLING_EDGE);
+}
+
+// `along` runs in the direction the siblings are laid out, `across` crosses it
+function findSiblingDrop(
+  siblings: (RectangleShape | EllipseShape)[],
+  shapeId: string,
+  along: number,
+  across: number,
+  vertical: boolean
+): Drop | null {
+  const start = (b: RectangleShape | EllipseShape) => (vertical ? b.y : b.x);
+  const end = (b: RectangleShape | EllipseShape) =>
+    vertical ? b.y + b.height : b.x + b.width;
+  const acrossStart = Math.min(...siblings.map((b) => (vertical ? b.x : b.y)));
+  const acrossEnd = Math.max(
+    ...siblings.map((b) => (vertical ? b.x + b.width : b.y + b.height))
+  );
+  // Only within the row (or stack) the siblings occupy
+  if (siblings.length < 2 || across < acrossStart || across > acrossEnd) {
+    return null;
+  }
+
+  const others = siblings.filter((b) => b.id !== shapeId);
+  const index = others.filter((b) => (start(b) + end(b)) / 2 < along).length;
+  if (index === siblings.findIndex((b) => b.id === shapeId)) {
+    return null;
+  }
+  const previous = others[index - 1];
+  const next = others[index];
+  let position = 0;
+  if (previous && next) {
+    position = (end(previous) + start(next)) / 2;
+  } else if (previous) {
+    position = end(previous) + INSERT_OFFSET;
+  } else if (next) {
+    position = start(next) - INSERT_OFFSET;
+  }
+  return {
+    kind: "order",
+    index,
+    line: vertical
+      ? { x1: acrossStart, y1: position, x2: acrossEnd, y2: position }
+      : { x1: position, y1: acrossStart, x2: position, y2: acrossEnd },
+  };
+}
+
+// Outline of the dragged box following the pointer, and the drop target
+function DragPreview({
+  drag,
+  shape,
+  target,
+  zoom,
+}: {
+  drag: BoxDrag;
+  shape: Shape | undefined;
+  target: Shape | undefined;
+  zoom: number;
+}) {
+  if (!(shape?.type === "rectangle" || shape?.type === "ellipse")) {
+    return null;
+  }
+  return (
+    <g pointerEvents="none">
+      {(target?.type === "rectangle" || target?.type === "ellipse") && (
+        <rect
+          fill="rgba(0, 102, 204, 0.08)"
+          height={target.height + 8}
+          rx={4}
+          stroke="#0066cc"
+          strokeWidth={2 / zoom}
+          width={target.width + 8}
+          x={target.x - 4}
+          y={target.y - 4}
+        />
+      )}
+      {drag.drop?.kind === "order" && (
+        <line
+          stroke="#0066cc"
+          strokeLinecap="round"
+          strokeWidth={3 / zoom}
+          {...drag.drop.line}
+        />
+      )}
+      <rect
+        fill="rgba(255, 255, 255, 0.7)"
+        height={shape.height}
+        rx={shape.type === "rectangle" ? shape.cornerRadius : shape.height / 2}
+        stroke="#0066cc"
+        strokeDasharray={`${4 / zoom} ${2 / zoom}`}
+        strokeWidth={1 / zoom}
+        width={shape.width}
+        x={drag.x - shape.width / 2}
+        y={drag.y - shape.height / 2}
+      />
+    </g>
+  );
+}
+
 interface ShapeRendererProps {
   shape: Shape;
   isSelected: boolean;
+  isEditing: boolean;
   onClick: (e: React.MouseEvent) => void;
+  onDoubleClick: (e: React.MouseEvent) => void;
+  onMouseDown: (e: React.MouseEvent) => void;
 }
 
-function ShapeRenderer({ shape, isSelected, onClick }: ShapeRendererProps) {
+function ShapeRenderer({
+  shape,
+  isSelected,
+  isEditing,
+  onClick,
+  onDoubleClick,
+  onMouseDown,
+}: ShapeRendererProps) {
   const renderHandles = (x: number, y: number, w: number, h: number) => {
     if (!isSelected) {
       return null;
@@ -521,11 +1058,13 @@ function ShapeRenderer({ shape, isSelected, onClick }: ShapeRendererProps) {
         // biome-ignore lint/a11y/useSemanticElements: SVG groups cannot be buttons
         <g
           onClick={onClick}
+          onDoubleClick={onDoubleClick}
           onKeyDown={(e) => {
             if (e.key === "Enter" || e.key === " ") {
               onClick(e as unknown as React.MouseEvent);
             }
           }}
+          onMouseDown={onMouseDown}
           role="button"
           style={{ cursor: "pointer" }}
           tabIndex={0}
@@ -552,6 +1091,7 @@ function ShapeRenderer({ shape, isSelected, onClick }: ShapeRendererProps) {
             x={shape.x}
             y={shape.y}
           />
+          {!isEditing && <ShapeContent shape={shape} />}
 
           {renderHandles(shape.x, shape.y, shape.width, shape.height)}
         </g>
@@ -562,11 +1102,13 @@ function ShapeRenderer({ shape, isSelected, onClick }: ShapeRendererProps) {
         // biome-ignore lint/a11y/useSemanticElements: SVG groups cannot be buttons
         <g
           onClick={onClick}
+          onDoubleClick={onDoubleClick}
           onKeyDown={(e) => {
             if (e.key === "Enter" || e.key === " ") {
               onClick(e as unknown as React.MouseEvent);
             }
           }}
+          onMouseDown={onMouseDown}
           role="button"
           style={{ cursor: "pointer" }}
           tabIndex={0}
@@ -591,6 +1133,7 @@ function ShapeRenderer({ shape, isSelected, onClick }: ShapeRendererProps) {
             stroke={shape.stroke}
             strokeWidth={shape.strokeWidth}
           />
+          {!isEditing && <ShapeContent shape={shape} />}
 
           {renderHandles(shape.x, shape.y, shape.width, shape.height)}
         </g>
@@ -0,0 +1,45 @@
+import { FileXIcon } from "@phosphor-icons/react";
+import { Link } from "@tanstack/react-router";
+import { Button, buttonVariants } from "./ui/button";
+
+// Editor state for ids with no chart behind them, e.g. a stale bookmark
+export function ChartNotFound({
+  trashed,
+  onRestore,
+}: {
+  // The chart exists but sits in the trash
+  trashed: boolean;
+  onRestore: () => void;
+}) {
+  return (
+    <div className="flex h-full w-full items-center justify-center px-4">
+      <div className="max-w-sm space-y-3 rounded-xl border border-gray-200 bg-white p-6 text-center text-xs shadow-sm">
+        <FileXIcon className="mx-auto text-gray-400" size={28} />
+        <h2 className="font-semibold text-gray-900 text-sm">
+          {trashed ? "This chart is in the trash" : "Chart not found"}
+        </h2>
+        <p className="text-gray-500">
+          {trashed
+            ? "Restore it to keep editing."
+            : "It may have been deleted, or the link points to a chart saved in another browser."}
+        </p>
+        <div className="flex justify-center gap-2">
+          {trashed && (
+            <Button onClick={onRestore} size="sm">
+              Restore chart
+            </Button>
+          )}
+          <Link
+            className={buttonVariants({
+              size: "sm",
+              variant: trashed ? "outline" : "default",
+            })}
+            to="/"
+          >
+            Go to my charts
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
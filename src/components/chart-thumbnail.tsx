@@ -0,0 +1,36 @@
+import { renderShapesSVG } from "../lib/shapes/renderer";
+import type { Shape } from "../lib/shapes/types";
+import { cn } from "../lib/utils";
+
+// Static preview of a chart, rendered with the same SVG as exports
+export function ChartThumbnail({
+  shapes,
+  className,
+}: {
+  shapes: Shape[];
+  className?: string;
+}) {
+  if (shapes.length === 0) {
+    return (
+      <div
+        className={cn(
+          "flex items-center justify-center text-gray-300 text-xs",
+          className
+        )}
+      >
+        Empty
+      </div>
+    );
+  }
+
+  const { svgContent, width, height } = renderShapesSVG(shapes);
+  return (
+    <img
+      alt=""
+      className={cn("object-contain", className)}
+      height={height}
+      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgContent)}`}
+      width={width}
+    />
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react";
+import { renderShapesSVG } from "../lib/shapes/renderer";
+import type { Shape } from "../lib/shapes/types";
+import type { Viewport } from "../lib/store/shapes";
+
+const FIT_PADDING = 48;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 5;
+
+// Read-only chart with wheel/drag panning and Ctrl+wheel zoom, matching the
+// editor canvas. The chart is drawn as an <img> so SVG from a shared link
+// can never run script in the page.
+export function ChartViewer({ shapes }: { shapes: Shape[] }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const { svgContent, width, height } = renderShapesSVG(shapes);
+
+  // Fit the chart once the container has a size
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const rect = container.getBoundingClientRect();
+    const zoom = Math.min(
+      (rect.width - FIT_PADDING * 2) / Math.max(width, 1),
+      (rect.height - FIT_PADDING * 2) / Math.max(height, 1),
+      1
+    );
+    setViewport({
+      x: (rect.width - width * zoom) / 2,
+      y: (rect.height - height * zoom) / 2,
+      zoom,
+    });
+  }, [width, height]);
+
+  // Native wheel handler for non-passive listener to prevent browser zoom
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      setViewport((current) => {
+        if (!current) {
+          return current;
+        }
+        if (!(e.ctrlKey || e.metaKey)) {
+          return {
+            ...current,
+            x: current.x - e.deltaX,
+            y: current.y - e.deltaY,
+          };
+        }
+        // Zoom towards the pointer
+        const zoom = Math.min(
+          Math.max(MIN_ZOOM, current.zoom - e.deltaY * 0.001),
+          MAX_ZOOM
+        );
+        const mouseX = e.clientX - rect.left;
+        const mouseY = e.clientY - rect.top;
+        const factor = zoom / current.zoom;
+        return {
+          x: mouseX - (mouseX - current.x) * factor,
+          y: mouseY - (mouseY - current.y) * factor,
+          zoom,
+        };
+      });
+    };
+    container.addEventListener("wheel", onWheel, { passive: false });
+    return () => container.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!(start && viewport)) {
+      return;
+    }
+    setViewport({
+      ...viewport,
+      x: viewport.x + e.clientX - start.x,
+      y: viewport.y + e.clientY - start.y,
+    });
+    dragStart.current = { x: e.clientX, y: e.clientY };
+  };
+
+  return (
+    <div
+      className="relative h-full w-full cursor-grab touch-none overflow-hidden active:cursor-grabbing"
+      onPointerCancel={() => {
+        dragStart.current = null;
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => {
+        dragStart.current = null;
+      }}
+      ref={containerRef}
+    >
+      {viewport && shapes.length > 0 && (
+        <img
+          alt=""
+          className="pointer-events-none absolute top-0 left-0 max-w-none select-none"
+          draggable={false}
+          height={height}
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgContent)}`}
+          // Resizing instead of scaling keeps the SVG sharp when zoomed in
+          style={{
+            width: width * viewport.zoom,
+            height: height * viewport.zoom,
+            transform: `translate(${viewport.x}px, ${viewport.y}px)`,
+          }}
+          width={width}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { WarningIcon } from "@phosphor-icons/react";
+import { Button } from "./ui/button";
+
+// Shown when another tab saved this chart while this tab had unsaved edits
+export function ConflictBanner({
+  onReload,
+  onFork,
+}: {
+  onReload: () => void;
+  onFork: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-amber-900 text-xs shadow-sm">
+      <WarningIcon className="flex-none text-amber-600" size={16} />
+      <span>
+        This chart was changed in another tab. Autosave is paused so neither
+        version is lost.
+      </span>
+      <Button onClick={onReload} size="xs" variant="outline">
+        Load their version
+      </Button>
+      <Button onClick={onFork} size="xs">
+        Keep mine as a copy
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { DesktopIcon } from "@phosphor-icons/react";
+
+// Shown instead of the editor on phone-sized screens
+export function DesktopNotice() {
+  return (
+    <div className="flex h-dvh w-full items-center justify-center bg-gray-50 px-4 text-center md:hidden">
+      <div className="max-w-md space-y-4 rounded-xl border border-gray-200 bg-white p-8 shadow-sm">
+        <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-blue-50 text-blue-600">
+          <DesktopIcon size={32} />
+        </div>
+        <div className="space-y-2">
+          <h2 className="font-semibold text-gray-900 text-lg">
+            Desktop Recommended
+          </h2>
+          <p className="text-gray-500 text-sm">
+            This application is optimized for desktop and tablet screens to
+            provide the best diagramming experience. Please open it on a larger
+            device.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,63 @@
 import { useState } from "react";
-import { copyShapesToClipboard, downloadAsSVG } from "../lib/clipboard/copy";
+import {
+  copyShapesToClipboard,
+  downloadAsPDF,
+  downloadAsPNG,
+  downloadAsPPTX,
+  downloadAsSVG,
+  getMaxPngScale,
+  getSelectionShapes,
+  type PngOptions,
+} from "../lib/clipboard/copy";
+import {
+  DEFAULT_PDF_OPTIONS,
+  getPdfPageGrid,
+  PDF_PAGE_SIZES,
+  type PdfOptions,
+  type PdfPageSize,
+} from "../lib/export/pdf";
+import { getShapesBoundingBox } from "../lib/shapes/renderer";
+import type { Shape } from "../lib/store/shapes";
 import { useShapeStore } from "../lib/store/shapes";
+import { cn } from "../lib/utils";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 
-export function ExportPanel() {
-  const { shapes } = useShapeStore();
+type ExportFormat = "svg" | "png" | "pdf" | "pptx";
+type ExportScope = "chart" | "selection";
+type ResolutionMode = "scale" | "dpi";
+
+// CSS pixels are defined at 96 per inch
+const SCREEN_DPI = 96;
+const SCALES = [1, 2, 3, 4];
+const INVALID_FILENAME_REGEX = /[\\/:*?"<>|]+/g;
+
+export function ExportPanel({ chartName = "shapes" }: { chartName?: string }) {
+  const { shapes: shapesRecord, shapeIds, selectedIds } = useShapeStore();
+  const shapes = shapeIds.map((id) => shapesRecord[id]).filter(Boolean);
   const [status, setStatus] = useState<"idle" | "success" | "error">("idle");
+  const [downloadFailed, setDownloadFailed] = useState(false);
+
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [scope, setScope] = useState<ExportScope>("chart");
+  const [resolutionMode, setResolutionMode] = useState<ResolutionMode>("scale");
+  const [scale, setScale] = useState(2);
+  const [dpi, setDpi] = useState(300);
+  const [background, setBackground] =
+    useState<PngOptions["background"]>("transparent");
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>(DEFAULT_PDF_OPTIONS);
+
+  const selection = getSelectionShapes(shapes, selectedIds);
+  const exportShapes =
+    scope === "selection" && selection.length > 0 ? selection : shapes;
+
+  const bbox = getShapesBoundingBox(exportShapes);
+  const requestedScale = resolutionMode === "dpi" ? dpi / SCREEN_DPI : scale;
+  const effectiveScale = Math.min(
+    requestedScale,
+    getMaxPngScale(bbox.width, bbox.height)
+  );
 
   const handleCopy = async () => {
     if (shapes.length === 0) {
@@ -21,11 +74,33 @@ export function ExportPanel() {
     }
   };
 
-  const handleDownload = () => {
-    if (shapes.length === 0) {
+  const handleDownload = async () => {
+    if (exportShapes.length === 0) {
       return;
     }
-    downloadAsSVG(shapes, "shapes.svg");
+    const baseName = toFileName(chartName);
+    try {
+      if (format === "svg") {
+        downloadAsSVG(exportShapes, `${baseName}.svg`);
+      } else if (format === "pptx") {
+        downloadAsPPTX(exportShapes, `${baseName}.pptx`);
+      } else if (format === "pdf") {
+        downloadAsPDF(exportShapes, `${baseName}.pdf`, pdfOptions);
+      } else {
+        // The DPI follows the scale actually rendered, so a capped image
+        // still prints at the chart's size
+        await downloadAsPNG(exportShapes, `${baseName}.png`, {
+          scale: effectiveScale,
+          background,
+          dpi:
+            resolutionMode === "dpi" ? effectiveScale * SCREEN_DPI : undefined,
+        });
+      }
+    } catch (error) {
+      console.error("Export failed:", error);
+      setDownloadFailed(true);
+      setTimeout(() => setDownloadFailed(false), 2000);
+    }
   };
 
   if (shapes.length === 0) {
@@ -48,19 +123,241 @@ export function ExportPanel() {
         {status === "success" ? "Copied!" : "Copy"}
       </button>
 
-      <button
-        className="flex items-center gap-1.5 rounded px-3 py-1.5 text-gray-600 text-xs transition-colors hover:bg-gray-100"
-        onClick={handleDownload}
-        title="Download as SVG"
-        type="button"
-      >
-        <DownloadIcon />
-        Export
-      </button>
+      <Popover>
+        <PopoverTrigger
+          className="flex items-center gap-1.5 rounded px-3 py-1.5 text-gray-600 text-xs transition-colors hover:bg-gray-100"
+          title="Export as PNG, SVG, PDF or PowerPoint"
+        >
+          <DownloadIcon />
+          Export
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 space-y-3 p-3 text-xs">
+          <ExportField label="Format">
+            <SegmentedControl
+              onChange={setFormat}
+              options={[
+                { value: "png", label: "PNG" },
+                { value: "svg", label: "SVG" },
+                { value: "pdf", label: "PDF" },
+                { value: "pptx", label: "PPTX" },
+              ]}
+              value={format}
+            />
+          </ExportField>
+
+          <ExportField label="Scope">
+            <SegmentedControl
+              disabled={selection.length === 0 ? ["selection"] : []}
+              onChange={setScope}
+              options={[
+                { value: "chart", label: "Whole chart" },
+                { value: "selection", label: "Selection" },
+              ]}
+              value={selection.length === 0 ? "chart" : scope}
+            />
+          </ExportField>
+
+          {format === "png" && (
+            <>
+              <ExportField label="Resolution">
+                <SegmentedControl
+                  onChange={setResolutionMode}
+                  options={[
+                    { value: "scale", label: "Scale" },
+                    { value: "dpi", label: "DPI" },
+                  ]}
+                  value={resolutionMode}
+                />
+                {resolutionMode === "scale" ? (
+                  <SegmentedControl
+                    onChange={(value) => setScale(Number(value))}
+                    options={SCALES.map((s) => ({
+                      value: String(s),
+                      label: `${s}\u00d7`,
+                    }))}
+                    value={String(scale)}
+                  />
+                ) : (
+                  <Input
+                    className="h-7 text-xs md:text-xs"
+                    max={1200}
+                    min={36}
+                    onChange={(e) => {
+                      const next = Number(e.target.value);
+                      if (next > 0) {
+                        setDpi(next);
+                      }
+                    }}
+                    type="number"
+                    value={dpi}
+                  />
+                )}
+              </ExportField>
+
+              <ExportField label="Background">
+                <SegmentedControl
+                  onChange={setBackground}
+                  options={[
+                    { value: "transparent", label: "Transparent" },
+                    { value: "white", label: "White" },
+                  ]}
+                  value={background}
+                />
+              </ExportField>
+
+              <div className="text-gray-400">
+                {Math.round(bbox.width * effectiveScale)} ×{" "}
+                {Math.round(bbox.height * effectiveScale)} px
+                {effectiveScale < requestedScale && " (capped)"}
+              </div>
+            </>
+          )}
+
+          {format === "pdf" && (
+            <PdfFields
+              onChange={setPdfOptions}
+              options={pdfOptions}
+              shapes={exportShapes}
+            />
+          )}
+
+          <Button
+            className="h-8 w-full text-xs"
+            onClick={handleDownload}
+            size="sm"
+            variant={downloadFailed ? "destructive" : "default"}
+          >
+            {downloadFailed
+              ? "Export failed"
+              : `Download ${format.toUpperCase()}`}
+          </Button>
+        </PopoverContent>
+      </Popover>
     </div>
   );
 }
 
+function PdfFields({
+  options,
+  shapes,
+  onChange,
+}: {
+  options: PdfOptions;
+  shapes: Shape[];
+  onChange: (options: PdfOptions) => void;
+}) {
+  const { columns, rows } = getPdfPageGrid(shapes, options);
+  const pageCount = columns * rows;
+
+  return (
+    <>
+      <ExportField label="Page">
+        <SegmentedControl
+          onChange={(pageSize) => onChange({ ...options, pageSize })}
+          options={(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(
+            (size) => ({ value: size, label: PDF_PAGE_SIZES[size].label })
+          )}
+          value={options.pageSize}
+        />
+        <SegmentedControl
+          onChange={(orientation) => onChange({ ...options, orientation })}
+          options={[
+            { value: "portrait", label: "Portrait" },
+            { value: "landscape", label: "Landscape" },
+          ]}
+          value={options.orientation}
+        />
+      </ExportField>
+
+      <ExportField label="Margin (mm)">
+        <Input
+          className="h-7 text-xs md:text-xs"
+          max={50}
+          min={0}
+          onChange={(e) => {
+            const marginMm = Number(e.target.value);
+            if (marginMm >= 0) {
+              onChange({ ...options, marginMm });
+            }
+          }}
+          type="number"
+          value={options.marginMm}
+        />
+      </ExportField>
+
+      <ExportField label="Layout">
+        <SegmentedControl
+          onChange={(fit) => onChange({ ...options, fit })}
+          options={[
+            { value: "page", label: "Fit to page" },
+            { value: "tile", label: "Tile pages" },
+          ]}
+          value={options.fit}
+        />
+      </ExportField>
+
+      <div className="text-gray-400">
+        {pageCount === 1
+          ? "1 page"
+          : `${pageCount} pages (${columns} \u00d7 ${rows})`}
+      </div>
+    </>
+  );
+}
+
+function ExportField({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <div className="font-medium text-gray-500">{label}</div>
+      {children}
+    </div>
+  );
+}
+
+function SegmentedControl<T extends string>({
+  value,
+  options,
+  disabled = [],
+  onChange,
+}: {
+  value: T;
+  options: { value: T; label: string }[];
+  disabled?: T[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex gap-0.5 rounded-md bg-gray-100 p-0.5">
+      {options.map((opt) => (
+        <button
+          className={cn(
+            "flex h-6 flex-1 items-center justify-center rounded-sm transition-all disabled:cursor-not-allowed disabled:opacity-40",
+            value === opt.value
+              ? "bg-white text-black shadow-sm"
+              : "text-gray-500 hover:bg-black/5 hover:text-gray-700"
+          )}
+          disabled={disabled.includes(opt.value)}
+          key={opt.value}
+          onClick={() => onChange(opt.value)}
+          type="button"
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Chart name with characters that aren't allowed in file names replaced
+function toFileName(name: string): string {
+  return name.replace(INVALID_FILENAME_REGEX, "-").trim() || "chart";
+}
+
 function CopyIcon() {
   return (
     <svg
@@ -0,0 +1,92 @@
+import {
+  CaretDownIcon,
+  FileIcon,
+  FloppyDiskIcon,
+  FolderOpenIcon,
+  LinkIcon,
+} from "@phosphor-icons/react";
+import { useEffect } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+const IS_MAC =
+  typeof navigator !== "undefined" && navigator.platform.startsWith("Mac");
+const MOD = IS_MAC ? "⌘" : "Ctrl+";
+
+export function FileMenu({
+  fileName,
+  onOpen,
+  onSave,
+  onSaveAs,
+  onShare,
+}: {
+  // Name of the file the chart is being saved to, if any
+  fileName: string | null;
+  onOpen: () => void;
+  onSave: () => void;
+  onSaveAs: () => void;
+  onShare: () => void;
+}) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "o") {
+        e.preventDefault();
+        onOpen();
+      } else if (key === "s") {
+        e.preventDefault();
+        if (e.shiftKey) {
+          onSaveAs();
+        } else {
+          onSave();
+        }
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onOpen, onSave, onSaveAs]);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex h-9 max-w-56 items-center gap-2 rounded-lg border border-gray-200 bg-white px-3 text-gray-700 text-xs shadow-sm hover:bg-gray-50">
+        <FileIcon className="flex-none text-gray-500" size={14} />
+        <span className="truncate">{fileName ?? "File"}</span>
+        <CaretDownIcon className="flex-none text-gray-400" size={10} />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        <DropdownMenuItem className="text-xs" onClick={onOpen}>
+          <FolderOpenIcon />
+          Open file…
+          <DropdownMenuShortcut>{MOD}O</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem className="text-xs" onClick={onSave}>
+          <FloppyDiskIcon />
+          Save
+          <DropdownMenuShortcut>{MOD}S</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuItem className="text-xs" onClick={onSaveAs}>
+          <FloppyDiskIcon />
+          Save as…
+          <DropdownMenuShortcut>
+            {IS_MAC ? "⇧⌘" : "Ctrl+Shift+"}S
+          </DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem className="text-xs" onClick={onShare}>
+          <LinkIcon />
+          Copy share link
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,56 @@
+import { ClockCounterClockwiseIcon } from "@phosphor-icons/react";
+import { useShapeStore } from "../lib/store/shapes";
+import { cn } from "../lib/utils";
+import { buttonVariants } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+
+// Every undo step of the session; clicking one undoes or redoes up to it
+export function HistoryPanel() {
+  const history = useShapeStore((s) => s.history);
+  const historyIndex = useShapeStore((s) => s.historyIndex);
+  const historyOffset = useShapeStore((s) => s.historyOffset);
+  const jumpToHistory = useShapeStore((s) => s.jumpToHistory);
+
+  // Row 0 is the oldest state still reachable (the chart as it was opened
+  // until history outgrows its limit), row i the state after entry i - 1
+  const rows = [
+    historyOffset > 0 ? "Earlier changes" : "Opened chart",
+    ...history.map((entry) => entry.label),
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        className={cn(
+          buttonVariants({ variant: "ghost", size: "icon-sm" }),
+          "text-gray-500"
+        )}
+        title="History"
+      >
+        <ClockCounterClockwiseIcon size={16} />
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 gap-2 p-2">
+        <h4 className="px-2 pt-1 font-medium text-xs">History</h4>
+        <ol className="max-h-72 overflow-y-auto text-xs">
+          {rows.map((label, index) => (
+            // biome-ignore lint/suspicious/noArrayIndexKey: counting trimmed entries keeps each row's key stable, and labels repeat
+            <li key={historyOffset + index}>
+              <button
+                className={cn(
+                  "w-full truncate rounded px-2 py-1 text-left hover:bg-gray-100",
+                  index === historyIndex && "bg-blue-50 text-blue-700",
+                  index > historyIndex && "text-gray-400"
+                )}
+                onClick={() => jumpToHistory(index)}
+                title={label}
+                type="button"
+              >
+                {label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,235 @@
+import { FileCsvIcon, WarningIcon } from "@phosphor-icons/react";
+import { useState } from "react";
+import {
+  buildOrgChart,
+  type ColumnMapping,
+  type DelimitedTable,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  type ImportIssue,
+  parseDelimited,
+} from "../lib/import/csv";
+import { useShapeStore } from "../lib/store/shapes";
+import { cn } from "../lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Textarea } from "./ui/textarea";
+
+type ImportMode = "append" | "replace";
+
+export function ImportDialog() {
+  const importShapes = useShapeStore((s) => s.importShapes);
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState("");
+  const [table, setTable] = useState<DelimitedTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [mode, setMode] = useState<ImportMode>("append");
+
+  const result = table && mapping?.id ? buildOrgChart(table, mapping) : null;
+
+  const handleSourceChange = (text: string) => {
+    setSource(text);
+    const parsed = parseDelimited(text);
+    setTable(parsed.headers.length > 0 ? parsed : null);
+    setMapping(guessColumnMapping(parsed.headers));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) {
+      handleSourceChange(await file.text());
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setSource("");
+      setTable(null);
+      setMapping(null);
+    }
+  };
+
+  return (
+    <AlertDialog onOpenChange={handleOpenChange} open={open}>
+      <AlertDialogTrigger className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-gray-600 transition-all hover:bg-gray-200/50 hover:text-gray-900">
+        <FileCsvIcon className="text-gray-500" size={16} />
+        <span>Import CSV</span>
+      </AlertDialogTrigger>
+      <AlertDialogContent className="text-xs sm:max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Import employees</AlertDialogTitle>
+          <AlertDialogDescription>
+            Paste a spreadsheet or choose a CSV/TSV file with one row per person
+            and a column pointing to each manager's id.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="cursor-pointer rounded-md border border-gray-200 bg-gray-50 px-3 py-1.5 text-gray-700 transition-colors hover:bg-white">
+              Choose file
+              <input
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                className="hidden"
+                onChange={handleFile}
+                type="file"
+              />
+            </label>
+            <span className="text-gray-400">or paste below</span>
+          </div>
+          <Textarea
+            className="max-h-32 min-h-20 font-mono text-xs md:text-xs"
+            onChange={(e) => handleSourceChange(e.target.value)}
+            placeholder={
+              "id,name,title,manager_id\n1,Ada Lovelace,CEO,\n2,Alan Turing,CTO,1"
+            }
+            value={source}
+          />
+
+          {table && mapping && (
+            <ColumnMappingGrid
+              headers={table.headers}
+              mapping={mapping}
+              onChange={setMapping}
+            />
+          )}
+
+          {table && !mapping?.id && (
+            <p className="text-red-600">Choose the column that holds ids.</p>
+          )}
+
+          {result && result.issues.length > 0 && (
+            <IssueList issues={result.issues} />
+          )}
+
+          {result && <ImportModeToggle mode={mode} onChange={setMode} />}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel size="sm">Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!result || result.nodeCount === 0}
+            onClick={() => {
+              if (result) {
+                importShapes(result.shapes, mode);
+                handleOpenChange(false);
+              }
+            }}
+            size="sm"
+          >
+            Import {result?.nodeCount ?? 0}{" "}
+            {result?.nodeCount === 1 ? "person" : "people"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function ColumnMappingGrid({
+  headers,
+  mapping,
+  onChange,
+}: {
+  headers: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+      {IMPORT_FIELDS.map(({ field, label }) => (
+        <div className="flex items-center gap-2" key={field}>
+          <span className="w-20 flex-none text-gray-500">{label}</span>
+          <Select
+            onValueChange={(value) =>
+              onChange({ ...mapping, [field]: value ?? null })
+            }
+            value={mapping[field]}
+          >
+            <SelectTrigger className="h-7 w-full text-xs" size="sm">
+              <SelectValue placeholder="Not imported" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={null}>Not imported</SelectItem>
+              {headers.map((header) => (
+                <SelectItem key={header} value={header}>
+                  {header}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function IssueList({ issues }: { issues: ImportIssue[] }) {
+  return (
+    <div className="max-h-28 space-y-1 overflow-y-auto rounded-md border border-amber-200 bg-amber-50 p-2 text-amber-800">
+      {issues.map((issue) => (
+        <div
+          className="flex items-start gap-1.5"
+          key={`${issue.line}-${issue.message}`}
+        >
+          <WarningIcon className="mt-px flex-none" size={12} />
+          <span>
+            <span className="font-medium">Line {issue.line}:</span>{" "}
+            {issue.message}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ImportModeToggle({
+  mode,
+  onChange,
+}: {
+  mode: ImportMode;
+  onChange: (mode: ImportMode) => void;
+}) {
+  const options: { value: ImportMode; label: string }[] = [
+    { value: "append", label: "Add to chart" },
+    { value: "replace", label: "Replace chart" },
+  ];
+
+  return (
+    <div className="flex gap-0.5 rounded-md bg-gray-100 p-0.5">
+      {options.map((opt) => (
+        <button
+          className={cn(
+            "flex h-7 flex-1 items-center justify-center rounded-sm transition-all",
+            mode === opt.value
+              ? "bg-white text-black shadow-sm"
+              : "text-gray-500 hover:bg-black/5 hover:text-gray-700"
+          )}
+          key={opt.value}
+          onClick={() => onChange(opt.value)}
+          type="button"
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  );
+}
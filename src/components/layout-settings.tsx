@@ -12,6 +12,8 @@ export function LayoutSettings() {
   const levelHeight = useShapeStore((s) => s.layoutParams.levelHeight);
   const shapeGap = useShapeStore((s) => s.layoutParams.shapeGap);
   const verticalIndent = useShapeStore((s) => s.layoutParams.verticalIndent);
+  const minBoxWidth = useShapeStore((s) => s.layoutParams.minBoxWidth);
+  const maxBoxWidth = useShapeStore((s) => s.layoutParams.maxBoxWidth);
   const setLayoutParams = useShapeStore((s) => s.setLayoutParams);
 
   const [localLevelHeight, setLocalLevelHeight] = useState(
@@ -21,6 +23,12 @@ export function LayoutSettings() {
   const [localVerticalIndent, setLocalVerticalIndent] = useState(
     verticalIndent.toString()
   );
+  const [localMinBoxWidth, setLocalMinBoxWidth] = useState(
+    minBoxWidth.toString()
+  );
+  const [localMaxBoxWidth, setLocalMaxBoxWidth] = useState(
+    maxBoxWidth.toString()
+  );
 
   // Sync local state ONLY when actual store values change
   useEffect(() => {
@@ -35,8 +43,21 @@ export function LayoutSettings() {
     setLocalVerticalIndent(verticalIndent.toString());
   }, [verticalIndent]);
 
+  useEffect(() => {
+    setLocalMinBoxWidth(minBoxWidth.toString());
+  }, [minBoxWidth]);
+
+  useEffect(() => {
+    setLocalMaxBoxWidth(maxBoxWidth.toString());
+  }, [maxBoxWidth]);
+
   const commitChange = (
-    key: "levelHeight" | "shapeGap" | "verticalIndent",
+    key:
+      | "levelHeight"
+      | "shapeGap"
+      | "verticalIndent"
+      | "minBoxWidth"
+      | "maxBoxWidth",
     value: string,
     setter: (val: string) => void
   ) => {
@@ -59,6 +80,12 @@ export function LayoutSettings() {
       if (key === "verticalIndent") {
         setter(verticalIndent.toString());
       }
+      if (key === "minBoxWidth") {
+        setter(minBoxWidth.toString());
+      }
+      if (key === "maxBoxWidth") {
+        setter(maxBoxWidth.toString());
+      }
     } else {
       setLayoutParams({ [key]: numValue });
       setter(numValue.toString());
@@ -142,6 +169,42 @@ export function LayoutSettings() {
                 value={localVerticalIndent}
               />
             </div>
+            <div className="grid grid-cols-[100px_1fr] items-center gap-4">
+              <Label htmlFor="min-box-width">Min Box Width</Label>
+              <Input
+                className="h-8"
+                id="min-box-width"
+                onBlur={() =>
+                  commitChange(
+                    "minBoxWidth",
+                    localMinBoxWidth,
+                    setLocalMinBoxWidth
+                  )
+                }
+                onChange={(e) => setLocalMinBoxWidth(e.target.value)}
+                onKeyDown={handleKeyDown}
+                type="text"
+                value={localMinBoxWidth}
+              />
+            </div>
+            <div className="grid grid-cols-[100px_1fr] items-center gap-4">
+              <Label htmlFor="max-box-width">Max Box Width</Label>
+              <Input
+                className="h-8"
+                id="max-box-width"
+                onBlur={() =>
+                  commitChange(
+                    "maxBoxWidth",
+                    localMaxBoxWidth,
+                    setLocalMaxBoxWidth
+                  )
+                }
+                onChange={(e) => setLocalMaxBoxWidth(e.target.value)}
+                onKeyDown={handleKeyDown}
+                type="text"
+                value={localMaxBoxWidth}
+              />
+            </div>
           </div>
         </div>
       </PopoverContent>
@@ -0,0 +1,149 @@
+import { CaretRightIcon, TreeViewIcon } from "@phosphor-icons/react";
+import { useEffect, useRef, useState } from "react";
+import { formatOutline, INDENT, shapesToOutline } from "../lib/outline";
+import { useShapeStore } from "../lib/store/shapes";
+import { Textarea } from "./ui/textarea";
+
+// Wait for a pause in typing before rebuilding the chart
+const APPLY_DELAY = 400;
+
+export function OutlinePane() {
+  const { shapes, shapeIds, applyOutline } = useShapeStore();
+
+  const [open, setOpen] = useState(true);
+  // Text being typed; null while the outline simply mirrors the canvas
+  const [draft, setDraft] = useState<string | null>(null);
+  const applyTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Don't rebuild the chart after the pane is gone
+  useEffect(
+    () => () => {
+      if (applyTimer.current) {
+        clearTimeout(applyTimer.current);
+      }
+    },
+    []
+  );
+
+  // Canvas edits rewrite the outline whenever no draft is pending
+  const outline = formatOutline(
+    shapesToOutline(shapeIds.map((id) => shapes[id]).filter(Boolean))
+  );
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    if (applyTimer.current) {
+      clearTimeout(applyTimer.current);
+    }
+    applyTimer.current = setTimeout(() => applyOutline(text), APPLY_DELAY);
+  };
+
+  const handleBlur = () => {
+    if (applyTimer.current) {
+      clearTimeout(applyTimer.current);
+    }
+    if (draft !== null) {
+      applyOutline(draft);
+    }
+    setDraft(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Escape") {
+      e.currentTarget.blur();
+      return;
+    }
+    if (e.key !== "Tab") {
+      return;
+    }
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { text, start, end } = indentLines(
+      textarea.value,
+      textarea.selectionStart,
+      textarea.selectionEnd,
+      e.shiftKey
+    );
+    handleChange(text);
+    requestAnimationFrame(() => textarea.setSelectionRange(start, end));
+  };
+
+  if (!open) {
+    return (
+      <div className="flex h-full w-10 flex-none flex-col items-center border-[#E5E5E5] border-l bg-[#F9F9F9] pt-3">
+        <button
+          className="rounded-lg p-2 text-gray-500 transition-colors hover:bg-gray-200/50 hover:text-gray-900"
+          onClick={() => setOpen(true)}
+          title="Show outline"
+          type="button"
+        >
+          <TreeViewIcon size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full w-[280px] flex-none flex-col border-[#E5E5E5] border-l bg-[#F9F9F9] text-xs">
+      <div className="flex h-14 flex-none items-center justify-between px-4">
+        <span className="font-medium text-gray-700">Outline</span>
+        <button
+          className="rounded p-1 text-gray-400 transition-colors hover:bg-gray-200 hover:text-gray-700"
+          onClick={() => setOpen(false)}
+          title="Hide outline"
+          type="button"
+        >
+          <CaretRightIcon size={14} />
+        </button>
+      </div>
+      <p className="flex-none px-4 pb-2 text-gray-400">
+        One person per line. Indent with Tab to report to the line above.
+      </p>
+      <div className="min-h-0 flex-1 px-3 pb-3">
+        <Textarea
+          className="field-sizing-fixed h-full resize-none bg-white font-mono text-xs leading-5 md:text-xs"
+          onBlur={handleBlur}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={"CEO\n  CTO\n    Engineer\n  CFO"}
+          spellCheck={false}
+          value={draft ?? outline}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Indent or outdent every line touched by the selection
+function indentLines(
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  outdent: boolean
+): { text: string; start: number; end: number } {
+  const blockStart = value.lastIndexOf("\n", selectionStart - 1) + 1;
+  const nextBreak = value.indexOf("\n", selectionEnd);
+  const blockEnd = nextBreak === -1 ? value.length : nextBreak;
+
+  const lines = value.slice(blockStart, blockEnd).split("\n");
+  const changed = lines.map((line) => {
+    if (!outdent) {
+      return INDENT + line;
+    }
+    if (line.startsWith("\t")) {
+      return line.slice(1);
+    }
+    return line.startsWith(INDENT)
+      ? line.slice(INDENT.length)
+      : line.trimStart();
+  });
+
+  const firstDelta = changed[0].length - lines[0].length;
+  const totalDelta = changed.join("\n").length - (blockEnd - blockStart);
+  return {
+    text:
+      value.slice(0, blockStart) + changed.join("\n") + value.slice(blockEnd),
+    start: Math.max(blockStart, selectionStart + firstDelta),
+    end: Math.max(blockStart, selectionEnd + totalDelta),
+  };
+}
@@ -2,6 +2,7 @@ import {
   ArrowRightIcon,
   ArrowsInLineHorizontalIcon,
   ArrowsInLineVerticalIcon,
+  ArrowsOutIcon,
   CircleIcon,
   CornersOutIcon,
   MinusIcon,
@@ -9,16 +10,28 @@ import {
   PencilSimpleIcon,
   SquareIcon,
   SquaresFourIcon,
+  TextAaIcon,
+  TextAlignCenterIcon,
+  TextAlignLeftIcon,
+  TextAlignRightIcon,
+  TextBIcon,
+  UserCircleIcon,
+  XIcon,
 } from "@phosphor-icons/react";
 import { cn } from "@/lib/utils";
 import { hasGrandchildren } from "../lib/layout/algorithm";
+import { readAvatarFile } from "../lib/shapes/avatar";
 import type {
   ArrowheadType,
   ElbowConnectorShape,
   EllipseShape,
+  PersonCard,
   RectangleShape,
   Shape,
+  ShapeLabel,
+  TextAlign,
 } from "../lib/shapes/types";
+import { DEFAULT_LABEL, EMPTY_PERSON } from "../lib/shapes/types";
 import { useShapeStore } from "../lib/store/shapes";
 import { ColorPicker } from "./color-picker";
 import { Button } from "./ui/button";
@@ -33,6 +46,8 @@ export function PropertyPanel() {
     selectedIds,
     updateShape,
     updateShapes,
+    updateLabels,
+    updatePerson,
     removeShape,
   } = useShapeStore();
   const selectedShapes = Array.from(selectedIds)
@@ -89,6 +104,34 @@ export function PropertyPanel() {
             showStroke={showStroke}
           />
         )}
+        {/* Text */}
+        {allRectOrEllipse && (
+          <>
+            <Separator className="bg-gray-100" />
+            <TextSection
+              firstShape={firstShape as RectangleShape | EllipseShape}
+              isMulti={isMulti}
+              onUpdate={(updates) =>
+                updateLabels(
+                  selectedShapes.map((s) => s.id),
+                  updates
+                )
+              }
+            />
+          </>
+        )}
+        {/* Person Card */}
+        {!isMulti &&
+          (firstShape.type === "rectangle" ||
+            firstShape.type === "ellipse") && (
+            <>
+              <Separator className="bg-gray-100" />
+              <PersonSection
+                firstShape={firstShape}
+                onUpdate={(updates) => updatePerson(firstShape.id, updates)}
+              />
+            </>
+          )}
         <Separator className="bg-gray-100" />
         {/* Dimensions */}
         {!isMulti &&
@@ -275,6 +318,168 @@ function StyleSection({
   );
 }
 
+function TextSection({
+  firstShape,
+  isMulti,
+  onUpdate,
+}: {
+  firstShape: RectangleShape | EllipseShape;
+  isMulti: boolean;
+  onUpdate: (updates: Partial<ShapeLabel>) => void;
+}) {
+  const label = { ...DEFAULT_LABEL, ...firstShape.label };
+  const alignOptions: { value: TextAlign; icon: React.ReactNode }[] = [
+    { value: "left", icon: <TextAlignLeftIcon size={14} /> },
+    { value: "center", icon: <TextAlignCenterIcon size={14} /> },
+    { value: "right", icon: <TextAlignRightIcon size={14} /> },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex w-6 justify-center text-gray-500">
+          <TextAaIcon size={16} />
+        </div>
+        <ColorPicker
+          className="h-7 w-auto min-w-[44px] px-2"
+          color={isMulti ? "#000000" : label.color}
+          onChange={(c) => onUpdate({ color: c })}
+          type="stroke"
+        />
+        <div className="w-12">
+          <Input
+            className="h-7 border border-gray-200 bg-gray-50 px-1 text-center text-xs transition-colors focus:bg-white"
+            min={6}
+            onChange={(e) =>
+              onUpdate({
+                fontSize: Number.parseInt(e.target.value, 10) || 12,
+              })
+            }
+            title="Font size"
+            type="number"
+            value={isMulti ? "" : label.fontSize}
+          />
+        </div>
+        <Button
+          className={cn(
+            "h-7 w-7",
+            label.fontWeight === "bold" && "bg-gray-100 text-black"
+          )}
+          onClick={() =>
+            onUpdate({
+              fontWeight: label.fontWeight === "bold" ? "normal" : "bold",
+            })
+          }
+          size="icon-xs"
+          title="Bold"
+          variant="ghost"
+        >
+          <TextBIcon size={14} weight="bold" />
+        </Button>
+      </div>
+      <div className="flex gap-0.5 rounded-md bg-gray-100 p-0.5">
+        {alignOptions.map((opt) => (
+          <button
+            className={cn(
+              "flex h-6 flex-1 items-center justify-center rounded-sm transition-all",
+              label.align === opt.value
+                ? "bg-white text-black shadow-sm"
+                : "text-gray-400 hover:bg-black/5 hover:text-gray-700"
+            )}
+            key={opt.value}
+            onClick={() => onUpdate({ align: opt.value })}
+            title={`Align ${opt.value}`}
+            type="button"
+          >
+            {opt.icon}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PersonSection({
+  firstShape,
+  onUpdate,
+}: {
+  firstShape: RectangleShape | EllipseShape;
+  onUpdate: (updates: Partial<PersonCard>) => void;
+}) {
+  const person = { ...EMPTY_PERSON, ...firstShape.person };
+  const fields: { key: keyof Omit<PersonCard, "avatar">; label: string }[] = [
+    { key: "name", label: "Name" },
+    { key: "title", label: "Title" },
+    { key: "department", label: "Department" },
+    { key: "email", label: "Email" },
+  ];
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      onUpdate({ avatar: await readAvatarFile(file) });
+    } catch (err) {
+      console.error("Failed to read avatar", err);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 px-1 text-gray-600">
+        <UserCircleIcon size={14} />
+        <span>Person</span>
+      </div>
+      {fields.map((field) => (
+        <div className="flex items-center gap-2" key={field.key}>
+          <span className="w-16 flex-none text-gray-400">{field.label}</span>
+          <Input
+            className="h-7 border border-gray-200 bg-gray-50 px-2 text-xs transition-colors focus:bg-white"
+            onChange={(e) => onUpdate({ [field.key]: e.target.value })}
+            type={field.key === "email" ? "email" : "text"}
+            value={person[field.key]}
+          />
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <span className="w-16 flex-none text-gray-400">Photo</span>
+        {person.avatar && (
+          <img
+            alt=""
+            className="h-7 w-7 rounded-full object-cover"
+            height={28}
+            src={person.avatar}
+            width={28}
+          />
+        )}
+        <label className="flex h-7 flex-1 cursor-pointer items-center justify-center rounded-md border border-gray-200 bg-gray-50 text-gray-600 transition-colors hover:bg-white">
+          {person.avatar ? "Replace" : "Upload"}
+          <input
+            accept="image/*"
+            className="hidden"
+            onChange={handleAvatarChange}
+            type="file"
+          />
+        </label>
+        {person.avatar && (
+          <Button
+            className="h-7 w-7 text-gray-400 hover:text-gray-700"
+            onClick={() => onUpdate({ avatar: undefined })}
+            size="icon-xs"
+            title="Remove photo"
+            variant="ghost"
+          >
+            <XIcon size={12} />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function DimensionsSection({
   firstShape,
   onUpdate,
@@ -293,6 +498,7 @@ function DimensionsSection({
           onChange={(e) =>
             onUpdate({
               width: Number.parseInt(e.target.value, 10) || 50,
+              autoSize: false,
             })
           }
           type="number"
@@ -308,6 +514,7 @@ function DimensionsSection({
           onChange={(e) =>
             onUpdate({
               height: Number.parseInt(e.target.value, 10) || 30,
+              autoSize: false,
             })
           }
           type="number"
@@ -333,6 +540,28 @@ function DimensionsSection({
           />
         </div>
       )}
+
+      {/* Auto Size */}
+      <div className="col-span-2 flex items-center justify-between px-1">
+        <div className="flex items-center gap-2 text-gray-600">
+          <ArrowsOutIcon size={14} />
+          <span>Fit to content</span>
+        </div>
+        <Button
+          className={cn(
+            "h-5 w-8 rounded-full transition-colors",
+            firstShape.autoSize === false
+              ? "bg-gray-100 text-gray-400"
+              : "bg-blue-100 text-blue-600"
+          )}
+          onClick={() => onUpdate({ autoSize: firstShape.autoSize === false })}
+          size="icon-xs"
+          title="Grow box to fit its text"
+          variant="ghost"
+        >
+          <ArrowsOutIcon size={14} />
+        </Button>
+      </div>
     </div>
   );
 }
@@ -1,90 +1,56 @@
-import { PlusIcon, XIcon } from "@phosphor-icons/react";
-import { Link, useNavigate } from "@tanstack/react-router";
-import { useEffect, useState } from "react";
-import { toast } from "sonner";
 import {
-  type ChartMeta,
-  createChartId,
-  createNewChart,
-  deleteChart,
-  getAllCharts,
-  getChart,
-  saveChart,
-} from "../lib/storage";
+  CopyIcon,
+  DotsThreeIcon,
+  MagnifyingGlassIcon,
+  PencilSimpleIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@phosphor-icons/react";
+import { Link } from "@tanstack/react-router";
+import { useState } from "react";
+import { SORT_OPTIONS, useCharts } from "../hooks/use-charts";
+import type { ChartMeta } from "../lib/storage";
+import { BackupDialog } from "./backup-dialog";
+import { ImportDialog } from "./import-dialog";
 import { PropertyPanel } from "./property-panel";
+import { TrashSection } from "./trash-section";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { VersionsDialog } from "./versions-dialog";
 
-export function Sidebar({ currentChartId }: { currentChartId?: string }) {
-  const [charts, setCharts] = useState<ChartMeta[]>([]);
-  const navigate = useNavigate();
-
-  useEffect(() => {
-    setCharts(getAllCharts());
-  }, []);
-
-  // Poll for changes in index
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const fresh = getAllCharts();
-      if (JSON.stringify(fresh) !== JSON.stringify(charts)) {
-        setCharts(fresh);
-      }
-    }, 2000);
-    return () => clearInterval(interval);
-  }, [charts]);
-
-  const handleNewChart = () => {
-    const id = createChartId();
-    createNewChart(id, "Untitled Chart");
-    // Force immediate update of list
-    setCharts(getAllCharts());
-    navigate({ to: "/e/$chartId", params: { chartId: id } });
-  };
-
-  const handleDelete = (e: React.MouseEvent, id: string) => {
-    e.preventDefault();
-    e.stopPropagation();
-
-    // 1. Backup for Undo
-    const chartMeta = charts.find((c) => c.id === id);
-    const chartData = getChart(id);
-
-    // 2. Optimistic Delete
-    deleteChart(id);
-    setCharts(getAllCharts());
-    if (currentChartId === id) {
-      navigate({ to: "/" });
-    }
-
-    // 3. Notify with Undo
-    toast.custom((t) => (
-      <div className="flex w-full items-center justify-between gap-2 rounded-lg border border-red-100 bg-white px-4 py-2 shadow-lg">
-        <span className="font-medium text-gray-900 text-xs">
-          {chartMeta?.name || "Untitled Chart"} deleted
-        </span>
-        <button
-          className="rounded bg-red-50 px-2 py-1 font-bold text-red-600 text-xs transition-colors hover:bg-red-100"
-          onClick={(e) => {
-            e.stopPropagation();
-            if (chartMeta && chartData) {
-              saveChart(id, chartMeta.name, chartData);
-              setCharts(getAllCharts());
-              toast.dismiss(t);
-              toast.custom(() => (
-                <div className="flex w-full items-center gap-2 rounded-lg border border-green-100 bg-white px-4 py-2 shadow-lg">
-                  <span className="font-medium text-gray-900 text-xs">
-                    Chart restored
-                  </span>
-                </div>
-              ));
-            }
-          }}
-          type="button"
-        >
-          Undo
-        </button>
-      </div>
-    ));
-  };
+export function Sidebar({
+  currentChartId,
+  onRename,
+}: {
+  currentChartId?: string;
+  // Lets the open editor pick up a new name for exports and autosave
+  onRename?: (id: string, name: string) => void;
+}) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const {
+    charts,
+    visibleCharts,
+    query,
+    setQuery,
+    sort,
+    setSort,
+    handleNewChart,
+    handleRename,
+    handleDuplicate,
+    handleDelete,
+  } = useCharts({ currentChartId, onRename });
 
   return (
     <div className="flex h-full w-[260px] flex-none flex-col border-[#E5E5E5] border-r bg-[#F9F9F9] text-xs">
@@ -115,45 +81,86 @@ export function Sidebar({ currentChartId }: { currentChartId?: string }) {
           <PlusIcon className="text-gray-500" size={16} />
           <span>New chart</span>
         </button>
+        <ImportDialog />
+        <BackupDialog />
+        {currentChartId && (
+          <VersionsDialog
+            chartId={currentChartId}
+            chartName={
+              charts.find((c) => c.id === currentChartId)?.name ??
+              "Untitled Chart"
+            }
+          />
+        )}
 
         <div className="space-y-1">
           <div className="px-2 pb-1 font-medium text-gray-400 text-xs">
             Your charts
           </div>
+          <div className="flex items-center gap-1.5 pb-1">
+            <div className="relative flex-1">
+              <MagnifyingGlassIcon
+                className="absolute top-1/2 left-2 -translate-y-1/2 text-gray-400"
+                size={12}
+              />
+              <Input
+                className="h-7 bg-white pl-6 text-xs md:text-xs"
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search"
+                value={query}
+              />
+            </div>
+            <Select
+              items={SORT_OPTIONS}
+              onValueChange={(value) => value && setSort(value)}
+              value={sort}
+            >
+              <SelectTrigger
+                className="h-7 bg-white text-xs"
+                size="sm"
+                title="Sort charts"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="max-h-[200px] space-y-0.5 overflow-y-auto">
-            {charts.map((chart) => (
-              <div
-                className={`group flex items-center justify-between rounded-lg pr-2 transition-colors ${
-                  currentChartId === chart.id
-                    ? "bg-gray-200 font-medium text-gray-900"
-                    : "text-gray-600 hover:bg-gray-200/50 hover:text-gray-900"
-                }`}
+            {visibleCharts.map((chart) => (
+              <ChartListItem
+                active={currentChartId === chart.id}
+                chart={chart}
                 key={chart.id}
-              >
-                <Link
-                  className="flex-1 truncate py-1.5 pl-3"
-                  params={{ chartId: chart.id }}
-                  to="/e/$chartId"
-                >
-                  {chart.name}
-                </Link>
-                <button
-                  className="invisible rounded p-1 text-gray-400 hover:bg-gray-300 hover:text-gray-700 group-hover:visible"
-                  onClick={(e) => handleDelete(e, chart.id)}
-                  title="Delete chart"
-                  type="button"
-                >
-                  <XIcon size={12} />
-                </button>
-              </div>
+                onDelete={() => handleDelete(chart.id)}
+                onDuplicate={() => handleDuplicate(chart.id)}
+                onRename={(name) => {
+                  setRenamingId(null);
+                  handleRename(chart.id, name);
+                }}
+                onStartRename={() => setRenamingId(chart.id)}
+                renaming={renamingId === chart.id}
+              />
             ))}
             {charts.length === 0 && (
               <div className="px-3 py-2 text-gray-400 text-xs italic">
                 No charts yet
               </div>
             )}
+            {charts.length > 0 && visibleCharts.length === 0 && (
+              <div className="px-3 py-2 text-gray-400 text-xs italic">
+                No matching charts
+              </div>
+            )}
           </div>
         </div>
+
+        <TrashSection />
       </div>
 
       {/* Property Panel (Contextual) - Seamless */}
@@ -163,3 +170,93 @@ export function Sidebar({ currentChartId }: { currentChartId?: string }) {
     </div>
   );
 }
+
+function ChartListItem({
+  chart,
+  active,
+  renaming,
+  onStartRename,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  chart: ChartMeta;
+  active: boolean;
+  renaming: boolean;
+  onStartRename: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) {
+  const rowClass = `group flex items-center justify-between rounded-lg pr-2 transition-colors ${
+    active
+      ? "bg-gray-200 font-medium text-gray-900"
+      : "text-gray-600 hover:bg-gray-200/50 hover:text-gray-900"
+  }`;
+
+  if (renaming) {
+    return (
+      <div className={rowClass}>
+        <Input
+          autoFocus
+          className="h-7 bg-white px-2 text-xs md:text-xs"
+          defaultValue={chart.name}
+          onBlur={(e) => onRename(e.target.value)}
+          onFocus={(e) => e.target.select()}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.currentTarget.blur();
+            }
+            if (e.key === "Escape") {
+              // Blur saves, so restore the old name first
+              e.currentTarget.value = chart.name;
+              e.currentTarget.blur();
+            }
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={rowClass}>
+      <Link
+        className="flex-1 truncate py-1.5 pl-3"
+        onDoubleClick={(e) => {
+          e.preventDefault();
+          onStartRename();
+        }}
+        params={{ chartId: chart.id }}
+        to="/e/$chartId"
+      >
+        {chart.name}
+      </Link>
+      <DropdownMenu>
+        <DropdownMenuTrigger
+          className="invisible rounded p-1 text-gray-400 hover:bg-gray-300 hover:text-gray-700 group-hover:visible data-popup-open:visible"
+          title="Chart actions"
+        >
+          <DotsThreeIcon size={12} weight="bold" />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-36">
+          <DropdownMenuItem className="text-xs" onClick={onStartRename}>
+            <PencilSimpleIcon />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-xs" onClick={onDuplicate}>
+            <CopyIcon />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="text-xs"
+            onClick={onDelete}
+            variant="destructive"
+          >
+            <TrashIcon />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { hasGrandchildren } from "../lib/layout/algorithm";
 import type { ElbowConnectorShape } from "../lib/shapes/types";
 import { useShapeStore } from "../lib/store/shapes";
 import { cn } from "../lib/utils";
+import { HistoryPanel } from "./history-panel";
 import { LayoutSettings } from "./layout-settings";
 import { Button } from "./ui/button";
 import { Separator } from "./ui/separator";
@@ -142,6 +143,7 @@ export function Toolbar() {
         >
           <ArrowClockwiseIcon size={16} weight="regular" />
         </Button>
+        <HistoryPanel />
 
         <Separator className="mx-1 h-6" orientation="vertical" />
         <LayoutSettings />
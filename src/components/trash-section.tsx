@@ -0,0 +1,193 @@
+import {
+  ArrowCounterClockwiseIcon,
+  CaretDownIcon,
+  CaretRightIcon,
+  TrashIcon,
+  XIcon,
+} from "@phosphor-icons/react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  type ChartMeta,
+  getSaveErrorMessage,
+  getTrashedCharts,
+  getTrashRetentionDays,
+  purgeChart,
+  purgeExpiredCharts,
+  restoreChart,
+  setTrashRetentionDays,
+} from "../lib/storage";
+import { subscribeToChartChanges } from "../lib/sync";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+const RETENTION_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "never", label: "Never" },
+];
+
+export function TrashSection() {
+  const [open, setOpen] = useState(false);
+  const [charts, setCharts] = useState<ChartMeta[]>([]);
+  const [retention, setRetention] = useState(
+    () => `${getTrashRetentionDays() ?? "never"}`
+  );
+  // Charts waiting for confirmation before they're deleted forever
+  const [purging, setPurging] = useState<ChartMeta[] | null>(null);
+
+  useEffect(() => {
+    purgeExpiredCharts()
+      .catch(showError)
+      .then(() => getTrashedCharts().then(setCharts));
+    return subscribeToChartChanges(() => {
+      getTrashedCharts().then(setCharts);
+    });
+  }, []);
+
+  const handleRetentionChange = (value: string) => {
+    setRetention(value);
+    setTrashRetentionDays(value === "never" ? null : Number(value));
+    purgeExpiredCharts().catch(showError);
+  };
+
+  const handlePurge = async () => {
+    if (!purging) {
+      return;
+    }
+    setPurging(null);
+    try {
+      for (const chart of purging) {
+        await purgeChart(chart.id);
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <button
+        className="flex w-full items-center gap-1.5 px-2 pb-1 font-medium text-gray-400 text-xs hover:text-gray-600"
+        onClick={() => setOpen(!open)}
+        type="button"
+      >
+        {open ? <CaretDownIcon size={10} /> : <CaretRightIcon size={10} />}
+        <span>Trash</span>
+        {charts.length > 0 && <span>({charts.length})</span>}
+      </button>
+
+      {open && (
+        <>
+          <div className="max-h-[160px] space-y-0.5 overflow-y-auto">
+            {charts.map((chart) => (
+              <div
+                className="group flex items-center gap-1 rounded-lg py-1 pr-2 pl-3 text-gray-500 hover:bg-gray-200/50"
+                key={chart.id}
+              >
+                <span className="flex-1 truncate">{chart.name}</span>
+                <button
+                  className="invisible rounded p-1 text-gray-400 hover:bg-gray-300 hover:text-gray-700 group-hover:visible"
+                  onClick={() => restoreChart(chart.id).catch(showError)}
+                  title="Restore chart"
+                  type="button"
+                >
+                  <ArrowCounterClockwiseIcon size={12} />
+                </button>
+                <button
+                  className="invisible rounded p-1 text-gray-400 hover:bg-red-100 hover:text-red-600 group-hover:visible"
+                  onClick={() => setPurging([chart])}
+                  title="Delete forever"
+                  type="button"
+                >
+                  <XIcon size={12} />
+                </button>
+              </div>
+            ))}
+            {charts.length === 0 && (
+              <div className="px-3 py-2 text-gray-400 text-xs italic">
+                Trash is empty
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-1.5 px-2">
+            <span className="text-gray-400">Auto-delete after</span>
+            <Select
+              items={RETENTION_OPTIONS}
+              onValueChange={(value) => value && handleRetentionChange(value)}
+              value={retention}
+            >
+              <SelectTrigger className="h-6 bg-white text-xs" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <button
+              className="ml-auto rounded p-1 text-gray-400 hover:bg-red-100 hover:text-red-600 disabled:opacity-40"
+              disabled={charts.length === 0}
+              onClick={() => setPurging(charts)}
+              title="Empty trash"
+              type="button"
+            >
+              <TrashIcon size={12} />
+            </button>
+          </div>
+        </>
+      )}
+
+      <AlertDialog
+        onOpenChange={(nextOpen) => !nextOpen && setPurging(null)}
+        open={purging !== null}
+      >
+        <AlertDialogContent className="text-xs" size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purging?.length === 1
+                ? `"${purging[0].name}" will be deleted permanently.`
+                : "Every chart in the trash will be deleted permanently."}{" "}
+              This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel size="sm">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              size="sm"
+              variant="destructive"
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function showError(error: unknown) {
+  toast.error(getSaveErrorMessage(error));
+}
@@ -0,0 +1,260 @@
+import { ClockCounterClockwiseIcon, TrashIcon } from "@phosphor-icons/react";
+import { useNavigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  type ChartSnapshot,
+  createChartId,
+  deleteSnapshot,
+  getSaveErrorMessage,
+  getSnapshots,
+  saveChart,
+  saveSnapshot,
+} from "../lib/storage";
+import { useShapeStore } from "../lib/store/shapes";
+import { ChartThumbnail } from "./chart-thumbnail";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./ui/alert-dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+export function VersionsDialog({
+  chartId,
+  chartName,
+}: {
+  chartId: string;
+  chartName: string;
+}) {
+  const loadChart = useShapeStore((s) => s.loadChart);
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [snapshots, setSnapshots] = useState<ChartSnapshot[]>([]);
+  // Version waiting for confirmation before it's deleted
+  const [deleting, setDeleting] = useState<ChartSnapshot | null>(null);
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setSnapshots(await getSnapshots(chartId));
+    } else {
+      setLabel("");
+    }
+  };
+
+  const snapshotCurrent = async (snapshotLabel: string) => {
+    const { shapes, shapeIds, layoutParams, viewport } =
+      useShapeStore.getState();
+    await saveSnapshot(chartId, snapshotLabel, {
+      shapes,
+      shapeIds,
+      layoutParams,
+      viewport,
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      await snapshotCurrent(label.trim());
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    setLabel("");
+    setSnapshots(await getSnapshots(chartId));
+  };
+
+  const handleRestore = async (snapshot: ChartSnapshot) => {
+    // Keep the work being replaced as a version of its own
+    try {
+      await snapshotCurrent(`Before restoring ${getVersionName(snapshot)}`);
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    loadChart(snapshot.data);
+    setOpen(false);
+    toast.success(`Restored ${getVersionName(snapshot)}`);
+  };
+
+  const handleRestoreAsNew = async (snapshot: ChartSnapshot) => {
+    const id = createChartId();
+    try {
+      await saveChart(
+        id,
+        `${chartName} (${getVersionName(snapshot)})`,
+        snapshot.data
+      );
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    setOpen(false);
+    navigate({ to: "/e/$chartId", params: { chartId: id } });
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) {
+      return;
+    }
+    setDeleting(null);
+    try {
+      await deleteSnapshot(deleting.id);
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    setSnapshots(await getSnapshots(chartId));
+  };
+
+  return (
+    <AlertDialog onOpenChange={handleOpenChange} open={open}>
+      <AlertDialogTrigger className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-gray-600 transition-all hover:bg-gray-200/50 hover:text-gray-900">
+        <ClockCounterClockwiseIcon className="text-gray-500" size={16} />
+        <span>Versions</span>
+      </AlertDialogTrigger>
+      <AlertDialogContent className="text-xs sm:max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Versions of {chartName}</AlertDialogTitle>
+          <AlertDialogDescription>
+            Save the chart as it is now, keep editing, and come back to any
+            saved version later.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <Input
+              className="h-8 text-xs md:text-xs"
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (optional), e.g. Before Q3 reorg"
+              value={label}
+            />
+            <Button size="sm" type="submit">
+              Save version
+            </Button>
+          </form>
+
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {snapshots.map((snapshot) => (
+              <SnapshotRow
+                key={snapshot.id}
+                onDelete={() => setDeleting(snapshot)}
+                onRestore={() => handleRestore(snapshot)}
+                onRestoreAsNew={() => handleRestoreAsNew(snapshot)}
+                snapshot={snapshot}
+              />
+            ))}
+            {snapshots.length === 0 && (
+              <p className="py-4 text-center text-gray-400 italic">
+                No saved versions yet
+              </p>
+            )}
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel size="sm">Close</AlertDialogCancel>
+        </AlertDialogFooter>
+
+        <AlertDialog
+          onOpenChange={(nextOpen) => !nextOpen && setDeleting(null)}
+          open={deleting !== null}
+        >
+          <AlertDialogContent className="text-xs" size="sm">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this version?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {deleting ? `"${getVersionName(deleting)}"` : "The version"}{" "}
+                will be deleted permanently. This can't be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel size="sm">Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                size="sm"
+                variant="destructive"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function SnapshotRow({
+  snapshot,
+  onRestore,
+  onRestoreAsNew,
+  onDelete,
+}: {
+  snapshot: ChartSnapshot;
+  onRestore: () => void;
+  onRestoreAsNew: () => void;
+  onDelete: () => void;
+}) {
+  const shapes = snapshot.data.shapeIds
+    .map((id) => snapshot.data.shapes[id])
+    .filter(Boolean);
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-gray-200 p-2">
+      <ChartThumbnail
+        className="h-16 w-24 flex-none rounded border border-gray-100 bg-white"
+        shapes={shapes}
+      />
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="truncate font-medium text-gray-900">
+          {snapshot.label || "Untitled version"}
+        </div>
+        <div className="text-gray-400">{formatDate(snapshot.createdAt)}</div>
+        <div className="flex gap-1">
+          <Button onClick={onRestore} size="xs" variant="outline">
+            Restore
+          </Button>
+          <Button onClick={onRestoreAsNew} size="xs" variant="ghost">
+            Restore as new chart
+          </Button>
+        </div>
+      </div>
+      <Button
+        onClick={onDelete}
+        size="icon-xs"
+        title="Delete version"
+        variant="ghost"
+      >
+        <TrashIcon />
+      </Button>
+    </div>
+  );
+}
+
+function getVersionName(snapshot: ChartSnapshot): string {
+  return snapshot.label || formatDate(snapshot.createdAt);
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
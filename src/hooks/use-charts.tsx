@@ -0,0 +1,160 @@
+import { useNavigate } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  type ChartMeta,
+  createChartId,
+  createNewChart,
+  deleteChart,
+  duplicateChart,
+  getAllCharts,
+  getSaveErrorMessage,
+  renameChart,
+  restoreChart,
+} from "../lib/storage";
+import { subscribeToChartChanges } from "../lib/sync";
+
+export type ChartSort = "updated" | "created" | "name";
+
+export const SORT_OPTIONS: { value: ChartSort; label: string }[] = [
+  { value: "updated", label: "Last edited" },
+  { value: "created", label: "Created" },
+  { value: "name", label: "Name" },
+];
+
+/**
+ * Saved charts, searchable and sorted, with the actions the sidebar and the
+ * dashboard share.
+ */
+export function useCharts({
+  currentChartId,
+  onRename,
+}: {
+  currentChartId?: string;
+  onRename?: (id: string, name: string) => void;
+} = {}) {
+  const [charts, setCharts] = useState<ChartMeta[]>([]);
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<ChartSort>("updated");
+  const navigate = useNavigate();
+
+  const visibleCharts = sortCharts(
+    charts.filter((c) =>
+      c.name.toLowerCase().includes(query.trim().toLowerCase())
+    ),
+    sort
+  );
+
+  // Saves, renames and deletes in any tab (this one included) refresh the list
+  useEffect(() => {
+    getAllCharts().then(setCharts);
+    return subscribeToChartChanges(() => {
+      getAllCharts().then(setCharts);
+    });
+  }, []);
+
+  const handleNewChart = async () => {
+    const id = createChartId();
+    try {
+      await createNewChart(id, "Untitled Chart");
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    navigate({ to: "/e/$chartId", params: { chartId: id } });
+  };
+
+  const handleRename = async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === charts.find((c) => c.id === id)?.name) {
+      return;
+    }
+    try {
+      await renameChart(id, trimmed);
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    onRename?.(id, trimmed);
+  };
+
+  const handleDuplicate = async (id: string) => {
+    let copy: ChartMeta | null;
+    try {
+      copy = await duplicateChart(id);
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    if (copy) {
+      navigate({ to: "/e/$chartId", params: { chartId: copy.id } });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const chartMeta = charts.find((c) => c.id === id);
+
+    // Deleted charts go to the trash, so Undo only has to take them back out
+    try {
+      await deleteChart(id);
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    if (currentChartId === id) {
+      navigate({ to: "/" });
+    }
+
+    toast.custom((t) => (
+      <div className="flex w-full items-center justify-between gap-2 rounded-lg border border-red-100 bg-white px-4 py-2 shadow-lg">
+        <span className="font-medium text-gray-900 text-xs">
+          {chartMeta?.name || "Untitled Chart"} moved to trash
+        </span>
+        <button
+          className="rounded bg-red-50 px-2 py-1 font-bold text-red-600 text-xs transition-colors hover:bg-red-100"
+          onClick={async (e) => {
+            e.stopPropagation();
+            try {
+              await restoreChart(id);
+            } catch (error) {
+              toast.error(getSaveErrorMessage(error));
+              return;
+            }
+            toast.dismiss(t);
+            toast.custom(() => (
+              <div className="flex w-full items-center gap-2 rounded-lg border border-green-100 bg-white px-4 py-2 shadow-lg">
+                <span className="font-medium text-gray-900 text-xs">
+                  Chart restored
+                </span>
+              </div>
+            ));
+          }}
+          type="button"
+        >
+          Undo
+        </button>
+      </div>
+    ));
+  };
+
+  return {
+    charts,
+    visibleCharts,
+    query,
+    setQuery,
+    sort,
+    setSort,
+    handleNewChart,
+    handleRename,
+    handleDuplicate,
+    handleDelete,
+  };
+}
+
+function sortCharts(charts: ChartMeta[], sort: ChartSort): ChartMeta[] {
+  if (sort === "name") {
+    return [...charts].sort((a, b) => a.name.localeCompare(b.name));
+  }
+  const key = sort === "created" ? "createdAt" : "updatedAt";
+  return [...charts].sort((a, b) => b[key] - a[key]);
+}
@@ -0,0 +1,160 @@
+import { createZip, readZip, type ZipEntry } from "./export/zip";
+import { isRecord, validateChart } from "./schema";
+import {
+  type ChartMeta,
+  type ChartRecord,
+  type ChartSnapshot,
+  getAllChartRecords,
+} from "./storage";
+
+// A backup is a zip holding a manifest of chart metadata plus one file of
+// chart data and one of versions per chart:
+//   manifest.json, charts/<id>.json, snapshots/<id>.json
+const MANIFEST_FILE = "manifest.json";
+const BACKUP_FORMAT = "baganify-backup";
+const BACKUP_VERSION = 1;
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  charts: ChartMeta[];
+}
+
+export interface Backup {
+  exportedAt: number;
+  records: ChartRecord[];
+}
+
+/**
+ * Thrown by `readBackup` when a file can't be restored; the message is
+ * meant for the user.
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+/**
+ * Archive every chart, including the trash, with all of its versions.
+ */
+export async function createBackup(): Promise<Blob> {
+  const records = await getAllChartRecords();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    charts: records.map((record) => record.meta),
+  };
+  return createZip(
+    [
+      { name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) },
+      ...records.flatMap(({ meta, data, snapshots }) => [
+        { name: `charts/${meta.id}.json`, data: JSON.stringify(data) },
+        { name: `snapshots/${meta.id}.json`, data: JSON.stringify(snapshots) },
+      ]),
+    ],
+    "application/zip"
+  );
+}
+
+/**
+ * Read and validate a whole backup without touching storage. Chart data is
+ * migrated and repaired the same way as when a chart is opened.
+ */
+export async function readBackup(file: Blob): Promise<Backup> {
+  let entries: ZipEntry[];
+  try {
+    entries = readZip(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new BackupError("This file is not a Baganify backup.");
+  }
+  const files = new Map(entries.map((entry) => [entry.name, entry.data]));
+
+  const manifest = readJson(files, MANIFEST_FILE);
+  if (!isRecord(manifest) || manifest.format !== BACKUP_FORMAT) {
+    throw new BackupError("This file is not a Baganify backup.");
+  }
+  if (
+    typeof manifest.version !== "number" ||
+    manifest.version > BACKUP_VERSION
+  ) {
+    throw new BackupError(
+      "This backup was made by a newer version of Baganify."
+    );
+  }
+  if (!Array.isArray(manifest.charts)) {
+    throw new BackupError("The backup's chart list is damaged.");
+  }
+
+  const records = manifest.charts.map((raw) => readRecord(files, raw));
+  const ids = new Set(records.map((record) => record.meta.id));
+  if (ids.size !== records.length) {
+    throw new BackupError("The backup lists the same chart twice.");
+  }
+  return {
+    exportedAt:
+      typeof manifest.exportedAt === "number" ? manifest.exportedAt : 0,
+    records,
+  };
+}
+
+function readRecord(files: Map<string, ZipEntry["data"]>, raw: unknown) {
+  if (
+    !(isRecord(raw) && typeof raw.id === "string" && raw.id) ||
+    typeof raw.name !== "string"
+  ) {
+    throw new BackupError("The backup's chart list is damaged.");
+  }
+
+  const now = Date.now();
+  const updatedAt = typeof raw.updatedAt === "number" ? raw.updatedAt : now;
+  const meta: ChartMeta = {
+    id: raw.id,
+    name: raw.name,
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : updatedAt,
+    updatedAt,
+    revision: 0,
+    deletedAt: typeof raw.deletedAt === "number" ? raw.deletedAt : undefined,
+  };
+
+  const data = validateChart(readJson(files, `charts/${meta.id}.json`)).data;
+  // Versions are optional so hand-trimmed backups still restore
+  const rawSnapshots = files.has(`snapshots/${meta.id}.json`)
+    ? readJson(files, `snapshots/${meta.id}.json`)
+    : [];
+  if (!Array.isArray(rawSnapshots)) {
+    throw new BackupError(`The versions of "${meta.name}" are damaged.`);
+  }
+  const snapshots = rawSnapshots.map((snapshot): ChartSnapshot => {
+    if (!(isRecord(snapshot) && typeof snapshot.id === "string")) {
+      throw new BackupError(`The versions of "${meta.name}" are damaged.`);
+    }
+    return {
+      id: snapshot.id,
+      chartId: meta.id,
+      label: typeof snapshot.label === "string" ? snapshot.label : "",
+      createdAt:
+        typeof snapshot.createdAt === "number" ? snapshot.createdAt : now,
+      data: validateChart(snapshot.data).data,
+    };
+  });
+
+  return { meta, data, snapshots };
+}
+
+function readJson(files: Map<string, ZipEntry["data"]>, name: string) {
+  const data = files.get(name);
+  if (data === undefined) {
+    throw new BackupError(`The backup is missing ${name}.`);
+  }
+  try {
+    return JSON.parse(
+      typeof data === "string" ? data : new TextDecoder().decode(data)
+    );
+  } catch {
+    throw new BackupError(`The backup's ${name} is damaged.`);
+  }
+}
@@ -0,0 +1,239 @@
+import { downloadBlob } from "./clipboard/copy";
+import { CURRENT_SCHEMA_VERSION, isRecord, validateChart } from "./schema";
+import type { ChartData } from "./storage";
+
+// Charts saved as files keep the ChartData fields at the top level next to
+// the chart's name and a format marker, so they stay readable and diff
+// cleanly under version control.
+export const CHART_FILE_EXTENSION = ".bagan.json";
+const CHART_FILE_FORMAT = "baganify-chart";
+
+export interface ChartFile extends ChartData {
+  format: typeof CHART_FILE_FORMAT;
+  name: string;
+  savedAt: number;
+}
+
+export interface OpenedChartFile {
+  name: string;
+  data: ChartData;
+  // What validation repaired, for telling the user
+  fixes: string[];
+  // Null when the file came from the upload fallback
+  handle: FileSystemFileHandle | null;
+}
+
+/**
+ * Thrown by `openChartFile` when the chosen file is not a chart; the
+ * message is meant for the user.
+ */
+export class ChartFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChartFileError";
+  }
+}
+
+const FILE_TYPES = [
+  {
+    description: "Baganify chart",
+    accept: { "application/json": [CHART_FILE_EXTENSION] },
+  },
+];
+
+interface FilePickerOptions {
+  types: typeof FILE_TYPES;
+  suggestedName?: string;
+}
+
+interface PermissionMode {
+  mode: "read" | "readwrite";
+}
+
+// Chromium-only parts of the File System Access API missing from lib.dom
+declare global {
+  interface Window {
+    showOpenFilePicker?: (
+      options: FilePickerOptions
+    ) => Promise<FileSystemFileHandle[]>;
+    showSaveFilePicker?: (
+      options: FilePickerOptions
+    ) => Promise<FileSystemFileHandle>;
+  }
+  interface FileSystemHandle {
+    queryPermission(descriptor: PermissionMode): Promise<PermissionState>;
+    requestPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  }
+}
+
+// Files opened or saved this session, by chart id, so the editor keeps
+// writing to the same file after navigating to the chart
+const linkedFiles = new Map<string, FileSystemFileHandle>();
+
+export function getLinkedFile(chartId: string): FileSystemFileHandle | null {
+  return linkedFiles.get(chartId) ?? null;
+}
+
+export function linkFile(chartId: string, handle: FileSystemFileHandle): void {
+  linkedFiles.set(chartId, handle);
+}
+
+/**
+ * Whether files can be opened and saved in place. Without it charts are
+ * uploaded and downloaded instead.
+ */
+export function supportsFileSystemAccess(): boolean {
+  return (
+    typeof window.showOpenFilePicker === "function" &&
+    typeof window.showSaveFilePicker === "function"
+  );
+}
+
+/**
+ * Ask the user for a chart file. Resolves to null if they cancel.
+ */
+export async function openChartFile(): Promise<OpenedChartFile | null> {
+  let handle: FileSystemFileHandle | null = null;
+  let file: File | null;
+  if (window.showOpenFilePicker) {
+    try {
+      [handle] = await window.showOpenFilePicker({ types: FILE_TYPES });
+    } catch (error) {
+      if (isAbort(error)) {
+        return null;
+      }
+      throw error;
+    }
+    file = await handle.getFile();
+  } else {
+    file = await uploadFile();
+  }
+  if (!file) {
+    return null;
+  }
+  return { ...parseChartFile(await file.text(), file.name), handle };
+}
+
+/**
+ * Ask where to save the chart and write it there. Resolves to the new
+ * file, or null if the user cancels.
+ */
+export async function saveChartFileAs(
+  name: string,
+  data: Omit<ChartData, "schemaVersion">
+): Promise<FileSystemFileHandle | null> {
+  if (!window.showSaveFilePicker) {
+    return null;
+  }
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await window.showSaveFilePicker({
+      types: FILE_TYPES,
+      suggestedName: `${name}${CHART_FILE_EXTENSION}`,
+    });
+  } catch (error) {
+    if (isAbort(error)) {
+      return null;
+    }
+    throw error;
+  }
+  await writeChartFile(handle, name, data, true);
+  return handle;
+}
+
+/**
+ * Write the chart to a file opened or saved earlier. Only prompts for
+ * write access when `prompt` is set, since prompts need a user gesture;
+ * resolves to false if access was not granted.
+ */
+export async function writeChartFile(
+  handle: FileSystemFileHandle,
+  name: string,
+  data: Omit<ChartData, "schemaVersion">,
+  prompt: boolean
+): Promise<boolean> {
+  const mode: PermissionMode = { mode: "readwrite" };
+  if (
+    (await handle.queryPermission(mode)) !== "granted" &&
+    !(prompt && (await handle.requestPermission(mode)) === "granted")
+  ) {
+    return false;
+  }
+  const writable = await handle.createWritable();
+  await writable.write(serializeChartFile(name, data));
+  await writable.close();
+  return true;
+}
+
+/**
+ * Fallback for browsers without the File System Access API.
+ */
+export function downloadChartFile(
+  name: string,
+  data: Omit<ChartData, "schemaVersion">
+): void {
+  downloadBlob(
+    new Blob([serializeChartFile(name, data)], { type: "application/json" }),
+    `${name}${CHART_FILE_EXTENSION}`
+  );
+}
+
+function serializeChartFile(
+  name: string,
+  data: Omit<ChartData, "schemaVersion">
+): string {
+  const file: ChartFile = {
+    format: CHART_FILE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    name,
+    savedAt: Date.now(),
+    ...data,
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+function parseChartFile(
+  text: string,
+  fileName: string
+): Omit<OpenedChartFile, "handle"> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ChartFileError(`${fileName} is not a Baganify chart.`);
+  }
+  if (!isRecord(raw) || raw.format !== CHART_FILE_FORMAT) {
+    throw new ChartFileError(`${fileName} is not a Baganify chart.`);
+  }
+  if (
+    typeof raw.schemaVersion === "number" &&
+    raw.schemaVersion > CURRENT_SCHEMA_VERSION
+  ) {
+    throw new ChartFileError(
+      `${fileName} was saved by a newer version of Baganify.`
+    );
+  }
+
+  const { data, report } = validateChart(raw);
+  const name =
+    typeof raw.name === "string" && raw.name
+      ? raw.name
+      : fileName.replace(CHART_FILE_EXTENSION, "");
+  return { name, data, fixes: report.fixes };
+}
+
+function uploadFile(): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = `${CHART_FILE_EXTENSION},.json,application/json`;
+    input.onchange = () => resolve(input.files?.[0] ?? null);
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
+
+// Closing a file picker rejects with an AbortError
+function isAbort(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
@@ -1,71 +1,106 @@
-import { getShapesBoundingBox, shapesToSVGDocument } from "../shapes/renderer";
+import { crc32 } from "../export/crc32";
+import {
+  DEFAULT_PDF_OPTIONS,
+  type PdfOptions,
+  shapesToPDF,
+} from "../export/pdf";
+import { shapesToPPTX } from "../export/pptx";
+import { formatOutline, shapesToOutline } from "../outline";
+import { renderShapesSVG } from "../shapes/renderer";
 import type { Shape } from "../shapes/types";
 
+export interface PngOptions {
+  // Output pixels per canvas unit
+  scale: number;
+  background: "transparent" | "white";
+  // Resolution recorded in the file; scale is usually dpi / 96
+  dpi?: number;
+}
+
+// Higher than screen resolution so pasted images stay sharp
+const DEFAULT_PNG_OPTIONS: PngOptions = { scale: 2, background: "transparent" };
+
+// Custom formats need the "web " prefix; only Chromium writes them today
+export const BAGANIFY_CLIPBOARD_TYPE = "web application/x-baganify+json";
+
+export interface ClipboardPayload {
+  app: "baganify";
+  version: 1;
+  shapes: Shape[];
+}
+
+/**
+ * Check if the browser can write a clipboard format. Without
+ * ClipboardItem.supports, only the formats every browser accepts count.
+ */
+export function supportsClipboardType(type: string): boolean {
+  if (typeof ClipboardItem === "undefined") {
+    return false;
+  }
+  if (typeof ClipboardItem.supports !== "function") {
+    return ["image/png", "text/html", "text/plain"].includes(type);
+  }
+  return ClipboardItem.supports(type);
+}
+
 /**
- * Check if the browser supports SVG clipboard
+ * Selected shapes plus the connectors joining them, so copies and exports
+ * of part of a chart keep its hierarchy.
  */
-export function supportsSVGClipboard(): boolean {
-  return (
-    typeof ClipboardItem !== "undefined" &&
-    typeof ClipboardItem.supports === "function" &&
-    ClipboardItem.supports("image/svg+xml")
+export function getSelectionShapes(
+  shapes: Shape[],
+  selectedIds: Set<string>
+): Shape[] {
+  return shapes.filter(
+    (s) =>
+      selectedIds.has(s.id) ||
+      (s.type === "elbow-connector" &&
+        s.startBinding &&
+        s.endBinding &&
+        selectedIds.has(s.startBinding.shapeId) &&
+        selectedIds.has(s.endBinding.shapeId))
   );
 }
 
 /**
- * Copy shapes to clipboard as SVG (for Office compatibility)
+ * Copy shapes to the clipboard in every format the browser can write:
+ * SVG (Office), PNG (chat apps), HTML with inline SVG (docs), an indented
+ * text outline (plain editors) and the raw shapes for pasting back into
+ * Baganify. Each paste target picks the richest format it understands.
  */
 export async function copyShapesToClipboard(
   shapes: Shape[]
-): Promise<{ success: boolean; format: string }> {
+): Promise<{ success: boolean; formats: string[] }> {
   if (shapes.length === 0) {
     throw new Error("No shapes to copy");
   }
 
-  const bbox = getShapesBoundingBox(shapes);
-
-  // Normalize shapes to start at (0,0) (with padding)
-  const normalizedShapes = shapes.map((shape) => {
-    const s = { ...shape };
-    if (s.type === "elbow-connector") {
-      s.startPoint = { x: s.startPoint.x - bbox.x, y: s.startPoint.y - bbox.y };
-      s.endPoint = { x: s.endPoint.x - bbox.x, y: s.endPoint.y - bbox.y };
-      // Also update x/y just in case they are used
-      s.x -= bbox.x;
-      s.y -= bbox.y;
-    } else {
-      s.x -= bbox.x;
-      s.y -= bbox.y;
-    }
-    return s;
-  });
-
-  const svgContent = shapesToSVGDocument(
-    normalizedShapes,
-    bbox.width,
-    bbox.height
-  );
-
+  const { svgContent, width, height } = renderShapesSVG(shapes);
+  const payload: ClipboardPayload = { app: "baganify", version: 1, shapes };
+
+  // PNG stays a promise so the write starts within the user gesture
+  const items: Record<string, Blob | Promise<Blob>> = {
+    "image/svg+xml": new Blob([svgContent], { type: "image/svg+xml" }),
+    "image/png": svgToPng(svgContent, width, height),
+    "text/html": new Blob([`<meta charset="utf-8">${svgContent}`], {
+      type: "text/html",
+    }),
+    "text/plain": new Blob([formatOutline(shapesToOutline(shapes))], {
+      type: "text/plain",
+    }),
+    [BAGANIFY_CLIPBOARD_TYPE]: new Blob([JSON.stringify(payload)], {
+      type: "application/json",
+    }),
+  };
+
+  const formats = Object.keys(items).filter(supportsClipboardType);
   try {
-    // Try SVG clipboard first (Chromium browsers)
-    if (supportsSVGClipboard()) {
-      const svgBlob = new Blob([svgContent], { type: "image/svg+xml" });
-      await navigator.clipboard.write([
-        new ClipboardItem({
-          "image/svg+xml": svgBlob,
-        }),
-      ]);
-      return { success: true, format: "svg" };
-    }
-
-    // Fallback: Copy as PNG using canvas
-    const pngBlob = await svgToPng(svgContent, bbox.width, bbox.height);
     await navigator.clipboard.write([
-      new ClipboardItem({
-        "image/png": pngBlob,
-      }),
+      new ClipboardItem(
+        Object.fromEntries(formats.map((type) => [type, items[type]]))
+      ),
     ]);
-    return { success: true, format: "png" };
+    return { success: true, formats };
   } catch (error) {
     console.error("Clipboard copy failed:", error);
     throw error;
@@ -78,7 +113,8 @@ export async function copyShapesToClipboard(
 function svgToPng(
   svgContent: string,
   width: number,
-  height: number
+  height: number,
+  options: PngOptions = DEFAULT_PNG_OPTIONS
 ): Promise<Blob> {
   return new Promise((resolve, reject) => {
     const canvas = document.createElement("canvas");
@@ -88,11 +124,14 @@ function svgToPng(
       return;
     }
 
-    // Use higher resolution for better quality
-    const scale = 2;
-    canvas.width = width * scale;
-    canvas.height = height * scale;
+    const scale = Math.min(options.scale, getMaxPngScale(width, height));
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
     ctx.scale(scale, scale);
+    if (options.background === "white") {
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, width, height);
+    }
 
     const img = new Image();
     const svgBlob = new Blob([svgContent], {
@@ -126,30 +165,63 @@ function svgToPng(
  * Download shapes as SVG file
  */
 export function downloadAsSVG(shapes: Shape[], filename = "shapes.svg"): void {
-  const bbox = getShapesBoundingBox(shapes);
-
-  // Normalize shapes to start at (0,0) (with padding)
-  const normalizedShapes = shapes.map((shape) => {
-    const s = { ...shape };
-    if (s.type === "elbow-connector") {
-      s.startPoint = { x: s.startPoint.x - bbox.x, y: s.startPoint.y - bbox.y };
-      s.endPoint = { x: s.endPoint.x - bbox.x, y: s.endPoint.y - bbox.y };
-      s.x -= bbox.x;
-      s.y -= bbox.y;
-    } else {
-      s.x -= bbox.x;
-      s.y -= bbox.y;
-    }
-    return s;
-  });
+  const { svgContent } = renderShapesSVG(shapes);
+  downloadBlob(new Blob([svgContent], { type: "image/svg+xml" }), filename);
+}
 
-  const svgContent = shapesToSVGDocument(
-    normalizedShapes,
-    bbox.width,
-    bbox.height
+/**
+ * Download shapes as a PNG file at the given scale and background.
+ * When a DPI is given it is also written to the file so print and office
+ * apps place the image at its intended physical size.
+ */
+export async function downloadAsPNG(
+  shapes: Shape[],
+  filename = "shapes.png",
+  options: PngOptions = DEFAULT_PNG_OPTIONS
+): Promise<void> {
+  const { svgContent, width, height } = renderShapesSVG(shapes);
+  const png = await svgToPng(svgContent, width, height, options);
+  downloadBlob(
+    options.dpi ? await setPngResolution(png, options.dpi) : png,
+    filename
   );
+}
+
+/**
+ * Download shapes as a vector PDF with the given page setup.
+ */
+export function downloadAsPDF(
+  shapes: Shape[],
+  filename = "shapes.pdf",
+  options: PdfOptions = DEFAULT_PDF_OPTIONS
+): void {
+  downloadBlob(shapesToPDF(shapes, options), filename);
+}
+
+/**
+ * Download shapes as a PowerPoint file with editable shapes and connectors.
+ */
+export function downloadAsPPTX(
+  shapes: Shape[],
+  filename = "shapes.pptx"
+): void {
+  downloadBlob(shapesToPPTX(shapes), filename);
+}
+
+// Canvas backing stores above this size fail silently in some browsers
+const MAX_CANVAS_SIDE = 16_384;
+
+/**
+ * Largest scale that keeps an export of this size within canvas limits.
+ */
+export function getMaxPngScale(width: number, height: number): number {
+  return MAX_CANVAS_SIDE / Math.max(width, height, 1);
+}
 
-  const blob = new Blob([svgContent], { type: "image/svg+xml" });
+/**
+ * Save a blob as a file through a temporary download link.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
 
   const a = document.createElement("a");
@@ -159,3 +231,25 @@ export function downloadAsSVG(shapes: Shape[], filename = "shapes.svg"): void {
 
   URL.revokeObjectURL(url);
 }
+
+// Insert a pHYs chunk (pixels per metre) right after the IHDR chunk
+async function setPngResolution(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // 8-byte signature + IHDR (4 length + 4 type + 13 data + 4 crc)
+  const ihdrEnd = 33;
+  return new Blob(
+    [bytes.subarray(0, ihdrEnd), chunk, bytes.subarray(ihdrEnd)],
+    { type: "image/png" }
+  );
+}
@@ -0,0 +1,67 @@
+import { isRecord, repairShape } from "../schema";
+import type { Shape } from "../shapes/types";
+import { BAGANIFY_CLIPBOARD_TYPE } from "./copy";
+
+export type ClipboardContent =
+  | { type: "shapes"; shapes: Shape[] }
+  | { type: "outline"; text: string };
+
+/**
+ * Read what another Baganify tab (or any other app) put on the system
+ * clipboard: copied shapes when present, otherwise plain text to turn into
+ * an outline. Returns null when the clipboard is empty or unreadable, e.g.
+ * the user denied the permission prompt.
+ */
+export async function readClipboard(): Promise<ClipboardContent | null> {
+  let items: ClipboardItems;
+  try {
+    items = await navigator.clipboard.read();
+  } catch (error) {
+    console.error("Clipboard read failed:", error);
+    return null;
+  }
+
+  for (const item of items) {
+    if (item.types.includes(BAGANIFY_CLIPBOARD_TYPE)) {
+      const blob = await item.getType(BAGANIFY_CLIPBOARD_TYPE);
+      const shapes = parseClipboardPayload(await blob.text());
+      if (shapes) {
+        return { type: "shapes", shapes };
+      }
+    }
+    if (item.types.includes("text/plain")) {
+      const blob = await item.getType("text/plain");
+      const text = await blob.text();
+      if (text.trim()) {
+        return { type: "outline", text };
+      }
+    }
+  }
+  return null;
+}
+
+// Pasted shapes come from another tab, possibly of an older or newer build,
+// so they go through the same repair as stored charts; unreadable ones drop
+function parseClipboardPayload(json: string): Shape[] | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (
+    !isRecord(payload) ||
+    payload.app !== "baganify" ||
+    !Array.isArray(payload.shapes)
+  ) {
+    return null;
+  }
+  const shapes = payload.shapes.flatMap((value: unknown) => {
+    const shape =
+      isRecord(value) && typeof value.id === "string"
+        ? repairShape(value.id, value, [])
+        : null;
+    return shape ? [shape] : [];
+  });
+  return shapes.length > 0 ? shapes : null;
+}
@@ -0,0 +1,33 @@
+// Channels in the 0-1 range
+export type Rgb = [number, number, number];
+
+const HEX_COLOR_REGEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const RGB_COLOR_REGEX = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i;
+
+/**
+ * Parse a shape colour for export. Returns null for "none"/"transparent"
+ * and falls back to black for anything unrecognised.
+ */
+export function parseColor(value: string): Rgb | null {
+  if (!value || value === "none" || value === "transparent") {
+    return null;
+  }
+  const hex = value.match(HEX_COLOR_REGEX)?.[1];
+  if (hex) {
+    const full =
+      hex.length === 3
+        ? hex
+            .split("")
+            .map((c) => c + c)
+            .join("")
+        : hex;
+    return [0, 2, 4].map(
+      (i) => Number.parseInt(full.slice(i, i + 2), 16) / 255
+    ) as Rgb;
+  }
+  const rgb = value.match(RGB_COLOR_REGEX);
+  if (rgb) {
+    return [rgb[1], rgb[2], rgb[3]].map((c) => Number(c) / 255) as Rgb;
+  }
+  return [0, 0, 0];
+}
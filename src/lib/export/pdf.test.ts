@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { createRectangle, DEFAULT_LABEL, type Shape } from "../shapes/types";
+import { DEFAULT_PDF_OPTIONS, getPdfPageGrid, shapesToPDF } from "./pdf";
+
+const XREF_OFFSET_REGEX = /^(\d{10}) 00000 n $/gm;
+const STARTXREF_REGEX = /startxref\n(\d+)\n%%EOF$/;
+
+function box(x: number, text: string): Shape {
+  return { ...createRectangle(x, 0), label: { ...DEFAULT_LABEL, text } };
+}
+
+async function readPdf(shapes: Shape[], options = DEFAULT_PDF_OPTIONS) {
+  const blob = shapesToPDF(shapes, options);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+}
+
+describe("shapesToPDF", () => {
+  it("writes an xref table whose offsets point at each object", async () => {
+    const pdf = await readPdf([box(0, "CEO")]);
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+
+    const offsets = [...pdf.matchAll(XREF_OFFSET_REGEX)].map((m) =>
+      Number(m[1])
+    );
+    expect(offsets.length).toBeGreaterThan(0);
+    for (const [index, offset] of offsets.entries()) {
+      expect(pdf.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true);
+    }
+    expect(Number(pdf.match(STARTXREF_REGEX)?.[1])).toBe(
+      pdf.lastIndexOf("xref\n0 ")
+    );
+  });
+
+  it("encodes label text as escaped WinAnsi strings", async () => {
+    const pdf = await readPdf([box(0, "Café (R&D) €"), box(200, "日本")]);
+    expect(pdf).toContain("(Caf\xe9 \\(R&D\\) \x80) Tj");
+    expect(pdf).toContain("(??) Tj");
+  });
+
+  it("writes one page per tile", async () => {
+    const shapes = [box(0, "Left"), box(1860, "Right")];
+    const options = { ...DEFAULT_PDF_OPTIONS, fit: "tile" as const };
+    const { columns, rows } = getPdfPageGrid(shapes, options);
+    expect([columns, rows]).toEqual([2, 1]);
+    expect(await readPdf(shapes, options)).toContain("/Count 2");
+  });
+});
+
+describe("getPdfPageGrid", () => {
+  it("fits the chart into the printable area of one page", () => {
+    const grid = getPdfPageGrid([box(0, "CEO")], {
+      ...DEFAULT_PDF_OPTIONS,
+      orientation: "portrait",
+      marginMm: 0,
+    });
+    expect(grid).toMatchObject({
+      pageWidth: 595.28,
+      pageHeight: 841.89,
+      margin: 0,
+      columns: 1,
+      rows: 1,
+    });
+    expect(grid.scale).toBeGreaterThan(1);
+  });
+
+  it("swaps the page dimensions for landscape", () => {
+    const grid = getPdfPageGrid([box(0, "CEO")], DEFAULT_PDF_OPTIONS);
+    expect([grid.pageWidth, grid.pageHeight]).toEqual([841.89, 595.28]);
+  });
+});
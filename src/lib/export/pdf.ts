@@ -0,0 +1,544 @@
+import { layoutCard } from "../shapes/card";
+import {
+  getArrowhead,
+  getElbowPoints,
+  getEllipsePath,
+  getRectPath,
+  getTrianglePoints,
+  type PathSegment,
+  polylinePath,
+  STACK_OFFSET,
+} from "../shapes/geometry";
+import { layoutLabel } from "../shapes/label";
+import { getShapesBoundingBox } from "../shapes/renderer";
+import type {
+  ElbowConnectorShape,
+  EllipseShape,
+  RectangleShape,
+  Shape,
+} from "../shapes/types";
+import { parseColor, type Rgb } from "./color";
+
+export type PdfPageSize = "a4" | "a3" | "letter";
+
+export interface PdfOptions {
+  pageSize: PdfPageSize;
+  orientation: "portrait" | "landscape";
+  marginMm: number;
+  // Shrink the chart onto one page, or print it at full size across pages
+  fit: "page" | "tile";
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  pageSize: "a4",
+  orientation: "landscape",
+  marginMm: 10,
+  fit: "page",
+};
+
+// Portrait dimensions in points (1/72 inch)
+export const PDF_PAGE_SIZES: Record<
+  PdfPageSize,
+  { label: string; width: number; height: number }
+> = {
+  a4: { label: "A4", width: 595.28, height: 841.89 },
+  a3: { label: "A3", width: 841.89, height: 1190.55 },
+  letter: { label: "Letter", width: 612, height: 792 },
+};
+
+// Canvas units are CSS pixels (96 per inch)
+const PX_TO_PT = 72 / 96;
+const MM_TO_PT = 72 / 25.4;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// WinAnsiEncoding code points for characters outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+const JPEG_DATA_URI_REGEX = /^data:image\/jpe?g;base64,/;
+const PDF_STRING_ESCAPE_REGEX = /[\\()]/g;
+
+interface PdfImage {
+  name: string;
+  data: Uint8Array<ArrayBuffer>;
+  width: number;
+  height: number;
+  components: number;
+}
+
+const num = (value: number) => Number(value.toFixed(3)).toString();
+
+const colorOps = (rgb: Rgb, op: "rg" | "RG") =>
+  `${rgb.map(num).join(" ")} ${op}`;
+
+function toWinAnsi(text: string): number[] {
+  return Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) {
+      return code;
+    }
+    return WIN_ANSI_EXTRAS[char] ?? "?".charCodeAt(0);
+  });
+}
+
+function measureHelvetica(
+  text: string,
+  fontSize: number,
+  fontWeight: "normal" | "bold"
+): number {
+  const widths =
+    fontWeight === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = toWinAnsi(text).reduce(
+    (sum, code) => sum + (widths[code - 32] ?? DEFAULT_GLYPH_WIDTH),
+    0
+  );
+  return (units / 1000) * fontSize;
+}
+
+function pdfString(text: string): string {
+  const latin1 = String.fromCharCode(...toWinAnsi(text));
+  return `(${latin1.replace(PDF_STRING_ESCAPE_REGEX, "\\$&")})`;
+}
+
+function pathOps(path: PathSegment[]): string {
+  return path
+    .map((segment) => {
+      switch (segment.type) {
+        case "move":
+          return `${num(segment.to.x)} ${num(segment.to.y)} m`;
+        case "line":
+          return `${num(segment.to.x)} ${num(segment.to.y)} l`;
+        case "curve":
+          return [segment.c1, segment.c2, segment.to]
+            .map((p) => `${num(p.x)} ${num(p.y)}`)
+            .join(" ")
+            .concat(" c");
+        default:
+          return "h";
+      }
+    })
+    .join("\n");
+}
+
+function paintOps(path: PathSegment[], shape: Shape): string {
+  const fill = parseColor(shape.fill);
+  const stroke = shape.strokeWidth > 0 ? parseColor(shape.stroke) : null;
+  if (!(fill || stroke)) {
+    return "";
+  }
+  let paint = "S";
+  if (fill && stroke) {
+    paint = "B";
+  } else if (fill) {
+    paint = "f";
+  }
+  return [
+    fill ? colorOps(fill, "rg") : "",
+    stroke ? `${colorOps(stroke, "RG")} ${num(shape.strokeWidth)} w` : "",
+    pathOps(path),
+    paint,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Text is drawn in a flipped text matrix so glyphs stay upright
+function textOps(
+  text: string,
+  x: number,
+  y: number,
+  fontSize: number,
+  fontWeight: "normal" | "bold",
+  anchor: "start" | "middle" | "end",
+  color: Rgb
+): string {
+  const width = measureHelvetica(text, fontSize, fontWeight);
+  let startX = x;
+  if (anchor === "middle") {
+    startX -= width / 2;
+  } else if (anchor === "end") {
+    startX -= width;
+  }
+  const font = fontWeight === "bold" ? "/F2" : "/F1";
+  return `BT ${font} ${num(fontSize)} Tf ${colorOps(color, "rg")} 1 0 0 -1 ${num(startX)} ${num(y)} Tm ${pdfString(text)} Tj ET`;
+}
+
+// Blend towards the box fill so muted card lines need no transparency
+function mixColor(color: Rgb, background: Rgb, opacity: number): Rgb {
+  return color.map(
+    (c, i) => c * opacity + background[i] * (1 - opacity)
+  ) as Rgb;
+}
+
+function readJpegSize(
+  data: Uint8Array
+): { width: number; height: number; components: number } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    const isFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isFrame) {
+      return {
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7),
+        components: data[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function decodeJpegDataUri(href: string, name: string): PdfImage | null {
+  if (!JPEG_DATA_URI_REGEX.test(href)) {
+    return null;
+  }
+  const binary = atob(href.replace(JPEG_DATA_URI_REGEX, ""));
+  const data = new Uint8Array(Array.from(binary, (c) => c.charCodeAt(0)));
+  const size = readJpegSize(data);
+  return size ? { name, data, ...size } : null;
+}
+
+function boxContentOps(
+  shape: RectangleShape | EllipseShape,
+  images: PdfImage[]
+): string {
+  const card = layoutCard(shape);
+  if (card) {
+    const textColor = parseColor(card.color) ?? [0, 0, 0];
+    const background = parseColor(shape.fill) ?? [1, 1, 1];
+    const ops: string[] = [];
+    const image = card.avatar
+      ? decodeJpegDataUri(card.avatar.href, `/Im${images.length + 1}`)
+      : null;
+    if (card.avatar && image) {
+      images.push(image);
+      const { x, y, size } = card.avatar;
+      ops.push(
+        `q\n${pathOps(getEllipsePath(x, y, size, size))}\nW n\n${num(size)} 0 0 ${num(-size)} ${num(x)} ${num(y + size)} cm ${image.name} Do\nQ`
+      );
+    }
+    for (const line of card.lines) {
+      ops.push(
+        textOps(
+          line.text,
+          line.x,
+          line.y,
+          line.fontSize,
+          line.fontWeight,
+          card.anchor,
+          mixColor(textColor, background, line.opacity)
+        )
+      );
+    }
+    return ops.join("\n");
+  }
+
+  const label = layoutLabel(shape);
+  if (!label) {
+    return "";
+  }
+  const color = parseColor(label.color) ?? [0, 0, 0];
+  return label.lines
+    .map((line) =>
+      textOps(
+        line.text,
+        line.x,
+        line.y,
+        label.fontSize,
+        label.fontWeight,
+        label.anchor,
+        color
+      )
+    )
+    .join("\n");
+}
+
+function connectorOps(shape: ElbowConnectorShape): string {
+  const stroke = parseColor(shape.stroke);
+  if (!stroke || shape.strokeWidth <= 0) {
+    return "";
+  }
+  // Round caps and joins are scoped so box outlines keep mitred corners
+  const ops = [
+    `q ${colorOps(stroke, "RG")} ${num(shape.strokeWidth)} w 1 J 1 j`,
+    `${pathOps(polylinePath(getElbowPoints(shape)))}\nS`,
+  ];
+  for (const position of ["start", "end"] as const) {
+    const arrowhead = getArrowhead(shape, position);
+    if (arrowhead) {
+      const angle = (arrowhead.rotation * Math.PI) / 180;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      ops.push(
+        `q ${[cos, sin, -sin, cos, arrowhead.x, arrowhead.y].map(num).join(" ")} cm\n${pathOps(arrowhead.path)}\nS Q`
+      );
+    }
+  }
+  ops.push("Q");
+  return ops.join("\n");
+}
+
+function shapeOps(shape: Shape, images: PdfImage[]): string {
+  if (shape.type === "elbow-connector") {
+    return connectorOps(shape);
+  }
+
+  let body: string;
+  if (shape.type === "triangle") {
+    const points = getTrianglePoints(
+      shape.x,
+      shape.y,
+      shape.width,
+      shape.height
+    );
+    body = paintOps([...polylinePath(points), { type: "close" }], shape);
+  } else {
+    const outline = (x: number, y: number) =>
+      shape.type === "rectangle"
+        ? getRectPath(x, y, shape.width, shape.height, shape.cornerRadius || 0)
+        : getEllipsePath(x, y, shape.width, shape.height);
+    body = [
+      shape.stacked
+        ? paintOps(
+            outline(shape.x + STACK_OFFSET.x, shape.y + STACK_OFFSET.y),
+            shape
+          )
+        : "",
+      paintOps(outline(shape.x, shape.y), shape),
+      boxContentOps(shape, images),
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  if (shape.rotation === 0) {
+    return body;
+  }
+  // Rotate about the shape centre, matching the SVG rotate() transform
+  const cx = shape.x + shape.width / 2;
+  const cy = shape.y + shape.height / 2;
+  const angle = (shape.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const matrix = [
+    cos,
+    sin,
+    -sin,
+    cos,
+    cx - cos * cx + sin * cy,
+    cy - sin * cx - cos * cy,
+  ];
+  return `q ${matrix.map(num).join(" ")} cm\n${body}\nQ`;
+}
+
+/**
+ * Page size, printable area and chart scale for the chosen options.
+ * Fit mode shrinks or grows the chart onto a single page; tile mode keeps
+ * it at print size and spreads it over as many pages as needed.
+ */
+export function getPdfPageGrid(
+  shapes: Shape[],
+  options: PdfOptions
+): {
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  scale: number;
+  columns: number;
+  rows: number;
+} {
+  const size = PDF_PAGE_SIZES[options.pageSize];
+  const landscape = options.orientation === "landscape";
+  const pageWidth = landscape ? size.height : size.width;
+  const pageHeight = landscape ? size.width : size.height;
+  const margin = Math.max(0, options.marginMm) * MM_TO_PT;
+  const areaWidth = Math.max(1, pageWidth - margin * 2);
+  const areaHeight = Math.max(1, pageHeight - margin * 2);
+  const bbox = getShapesBoundingBox(shapes);
+
+  if (options.fit === "page") {
+    const scale = Math.min(areaWidth / bbox.width, areaHeight / bbox.height);
+    return { pageWidth, pageHeight, margin, scale, columns: 1, rows: 1 };
+  }
+
+  return {
+    pageWidth,
+    pageHeight,
+    margin,
+    scale: PX_TO_PT,
+    columns: Math.max(1, Math.ceil((bbox.width * PX_TO_PT) / areaWidth)),
+    rows: Math.max(1, Math.ceil((bbox.height * PX_TO_PT) / areaHeight)),
+  };
+}
+
+function latin1Bytes(text: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Array.from(text, (c) => c.charCodeAt(0)));
+}
+
+/**
+ * Build a vector PDF of the shapes. The chart is drawn once as a form
+ * XObject from the same geometry as the SVG renderer, and every page
+ * places it with its own offset and clip. Text uses the built-in Helvetica
+ * fonts, so characters outside WinAnsi are replaced.
+ */
+export function shapesToPDF(
+  shapes: Shape[],
+  options: PdfOptions = DEFAULT_PDF_OPTIONS
+): Blob {
+  const bbox = getShapesBoundingBox(shapes);
+  const grid = getPdfPageGrid(shapes, options);
+  const images: PdfImage[] = [];
+  const chartOps = shapes.map((s) => shapeOps(s, images)).join("\n");
+
+  const objects: Uint8Array<ArrayBuffer>[][] = [];
+  const addObject = (...parts: (string | Uint8Array<ArrayBuffer>)[]) => {
+    objects.push(
+      parts.map((part) => (typeof part === "string" ? latin1Bytes(part) : part))
+    );
+    return objects.length;
+  };
+  const addStream = (dict: string, data: Uint8Array<ArrayBuffer>) =>
+    addObject(
+      `<< ${dict} /Length ${data.length} >>\nstream\n`,
+      data,
+      "\nendstream"
+    );
+
+  const catalogId = addObject("");
+  const pagesId = addObject("");
+  const regularFontId = addObject(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+  );
+  const boldFontId = addObject(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+  );
+  const imageRefs = images
+    .map((image) => {
+      const id = addStream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${image.components === 1 ? "/DeviceGray" : "/DeviceRGB"} /BitsPerComponent 8 /Filter /DCTDecode`,
+        image.data
+      );
+      return `${image.name} ${id} 0 R`;
+    })
+    .join(" ");
+  const chartId = addStream(
+    `/Type /XObject /Subtype /Form /BBox [${[bbox.x, bbox.y, bbox.x + bbox.width, bbox.y + bbox.height].map(num).join(" ")}] /Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> /XObject << ${imageRefs} >> >>`,
+    latin1Bytes(chartOps)
+  );
+
+  const { pageWidth, pageHeight, margin, scale, columns, rows } = grid;
+  const areaWidth = pageWidth - margin * 2;
+  const areaHeight = pageHeight - margin * 2;
+  // Centre the chart when it fits on one page
+  const offsetX =
+    columns === 1 ? Math.max(0, (areaWidth - bbox.width * scale) / 2) : 0;
+  const offsetY =
+    rows === 1 ? Math.max(0, (areaHeight - bbox.height * scale) / 2) : 0;
+
+  const pageIds: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const translateX = margin + offsetX - column * areaWidth;
+      const translateY = margin + offsetY - row * areaHeight;
+      const content = [
+        `1 0 0 -1 0 ${num(pageHeight)} cm`,
+        `${num(margin)} ${num(margin)} ${num(areaWidth)} ${num(areaHeight)} re W n`,
+        `1 0 0 1 ${num(translateX)} ${num(translateY)} cm`,
+        `${num(scale)} 0 0 ${num(scale)} 0 0 cm`,
+        `1 0 0 1 ${num(-bbox.x)} ${num(-bbox.y)} cm`,
+        "/Chart Do",
+      ].join("\n");
+      const contentId = addStream("", latin1Bytes(content));
+      pageIds.push(
+        addObject(
+          `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << /XObject << /Chart ${chartId} 0 R >> >> /Contents ${contentId} 0 R >>`
+        )
+      );
+    }
+  }
+
+  objects[catalogId - 1] = [
+    latin1Bytes(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`),
+  ];
+  objects[pagesId - 1] = [
+    latin1Bytes(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`
+    ),
+  ];
+
+  const chunks: Uint8Array<ArrayBuffer>[] = [
+    latin1Bytes("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n"),
+  ];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  for (const [index, parts] of objects.entries()) {
+    offsets.push(length);
+    for (const part of [
+      latin1Bytes(`${index + 1} 0 obj\n`),
+      ...parts,
+      latin1Bytes("\nendobj\n"),
+    ]) {
+      chunks.push(part);
+      length += part.length;
+    }
+  }
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(latin1Bytes(xref));
+
+  return new Blob(chunks, { type: "application/pdf" });
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  createOrgConnector,
+  createRectangle,
+  DEFAULT_LABEL,
+  type Shape,
+} from "../shapes/types";
+import { shapesToPPTX } from "./pptx";
+
+const SLIDE_SIZE_REGEX = /<p:sldSz cx="(\d+)" cy="(\d+)"\/>/;
+
+// Entries are stored uncompressed, so names and XML appear verbatim
+async function readPptx(shapes: Shape[]): Promise<string> {
+  return await shapesToPPTX(shapes).text();
+}
+
+function orgChart(): Shape[] {
+  const parent = {
+    ...createRectangle(0, 0),
+    label: { ...DEFAULT_LABEL, text: "R&D <Lead>" },
+  };
+  const child = createRectangle(0, 150, 1);
+  const connector = {
+    ...createOrgConnector(parent.id, child.id, "horizontal"),
+    startPoint: { x: 70, y: 50 },
+    endPoint: { x: 70, y: 150 },
+  };
+  return [parent, child, connector];
+}
+
+describe("shapesToPPTX", () => {
+  it("packages every part the presentation refers to", async () => {
+    const pptx = await readPptx(orgChart());
+    for (const part of [
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "ppt/presentation.xml",
+      "ppt/_rels/presentation.xml.rels",
+      "ppt/slides/slide1.xml",
+      "ppt/slides/_rels/slide1.xml.rels",
+      "ppt/slideMasters/slideMaster1.xml",
+      "ppt/slideLayouts/slideLayout1.xml",
+      "ppt/theme/theme1.xml",
+    ]) {
+      expect(pptx).toContain(part);
+    }
+  });
+
+  it("writes boxes as shapes with escaped text", async () => {
+    const slide = await readPptx(orgChart());
+    expect(slide?.match(/<p:sp>/g)).toHaveLength(2);
+    expect(slide).toContain("<a:t>R&amp;D &lt;Lead&gt;</a:t>");
+  });
+
+  it("glues connectors to the connection sites of their boxes", async () => {
+    const slide = await readPptx(orgChart());
+    expect(slide).toContain(
+      '<a:stCxn id="2" idx="2"/><a:endCxn id="3" idx="0"/>'
+    );
+  });
+
+  it("keeps the slide at least one inch in each direction", async () => {
+    const presentation = await readPptx([createRectangle(0, 0)]);
+    const [, width, height] = presentation?.match(SLIDE_SIZE_REGEX) ?? [];
+    expect(Number(width)).toBeGreaterThanOrEqual(914_400);
+    expect(Number(height)).toBeGreaterThanOrEqual(914_400);
+  });
+});
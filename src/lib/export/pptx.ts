@@ -0,0 +1,487 @@
+import { getCardEntries, hasPersonCard, layoutCard } from "../shapes/card";
+import { getElbowPoints, STACK_OFFSET } from "../shapes/geometry";
+import { getLabelInset, LABEL_PADDING } from "../shapes/label";
+import { escapeXml, getShapesBoundingBox } from "../shapes/renderer";
+import type {
+  ArrowheadType,
+  ConnectorBinding,
+  ElbowConnectorShape,
+  EllipseShape,
+  Point,
+  RectangleShape,
+  Shape,
+} from "../shapes/types";
+import { DEFAULT_LABEL } from "../shapes/types";
+import { parseColor } from "./color";
+import { createZip, type ZipEntry } from "./zip";
+
+type Box = RectangleShape | EllipseShape;
+
+// Canvas units are CSS pixels; DrawingML uses English Metric Units
+const EMU_PER_PX = 9525;
+// PowerPoint rejects slides larger than 56 inches or smaller than 1 inch
+const MAX_SLIDE_EMU = 51_206_400;
+const MIN_SLIDE_EMU = 914_400;
+// Office fallback for the app font, which colleagues may not have installed
+const PPTX_FONT = "Arial";
+
+const PPTX_MIME =
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+const JPEG_DATA_URI_REGEX = /^data:image\/jpe?g;base64,/;
+
+const NS =
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Connection site index per box side, from the preset shape definitions.
+// Center bindings have no matching site and are left unglued.
+const CONNECTION_SITES: Record<
+  Exclude<Shape["type"], "elbow-connector">,
+  Partial<Record<ConnectorBinding["side"], number>>
+> = {
+  rectangle: { top: 0, left: 1, bottom: 2, right: 3 },
+  ellipse: { top: 0, left: 2, bottom: 4, right: 6 },
+  triangle: { top: 0, left: 1, bottom: 3, right: 5 },
+};
+
+// DrawingML has no bar line end, so bars are dropped
+const LINE_ENDS: Record<ArrowheadType, string> = {
+  none: "none",
+  arrow: "arrow",
+  bar: "none",
+};
+
+interface SlideContext {
+  origin: Point;
+  scale: number;
+  // Shape id -> drawing id and connection sites used by connector bindings
+  drawingIds: Map<
+    string,
+    { id: number; sites: Partial<Record<ConnectorBinding["side"], number>> }
+  >;
+  nextId: number;
+  media: { rId: string; path: string; data: Uint8Array<ArrayBuffer> }[];
+}
+
+function toHex(value: string): string | null {
+  const rgb = parseColor(value);
+  return rgb
+    ? rgb
+        .map((c) =>
+          Math.round(c * 255)
+            .toString(16)
+            .padStart(2, "0")
+        )
+        .join("")
+        .toUpperCase()
+    : null;
+}
+
+const fillXml = (value: string) => {
+  const hex = toHex(value);
+  return hex
+    ? `<a:solidFill><a:srgbClr val="${hex}"/></a:solidFill>`
+    : "<a:noFill/>";
+};
+
+function lineXml(
+  stroke: string,
+  strokeWidth: number,
+  ctx: SlideContext,
+  ends = ""
+): string {
+  const hex = toHex(stroke);
+  if (!hex || strokeWidth <= 0) {
+    return "<a:ln><a:noFill/></a:ln>";
+  }
+  const width = Math.round(strokeWidth * EMU_PER_PX * ctx.scale);
+  return `<a:ln w="${width}"><a:solidFill><a:srgbClr val="${hex}"/></a:solidFill>${ends}</a:ln>`;
+}
+
+const emu = (px: number, ctx: SlideContext) =>
+  Math.round(px * EMU_PER_PX * ctx.scale);
+
+function xfrmXml(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  ctx: SlideContext,
+  attrs = ""
+): string {
+  return `<a:xfrm${attrs}><a:off x="${emu(x - ctx.origin.x, ctx)}" y="${emu(y - ctx.origin.y, ctx)}"/><a:ext cx="${emu(width, ctx)}" cy="${emu(height, ctx)}"/></a:xfrm>`;
+}
+
+function rotationAttr(rotation: number): string {
+  const normalized = ((rotation % 360) + 360) % 360;
+  return normalized === 0 ? "" : ` rot="${Math.round(normalized * 60_000)}"`;
+}
+
+// Font size in hundredths of a point
+const fontSize = (px: number, ctx: SlideContext) =>
+  Math.max(100, Math.round(px * 0.75 * ctx.scale * 100));
+
+function runXml(
+  text: string,
+  size: number,
+  bold: boolean,
+  color: string,
+  alpha = 1
+): string {
+  const hex = toHex(color) ?? "000000";
+  const alphaXml =
+    alpha < 1 ? `<a:alpha val="${Math.round(alpha * 100_000)}"/>` : "";
+  return `<a:r><a:rPr lang="en-US" sz="${size}" b="${bold ? 1 : 0}" dirty="0"><a:solidFill><a:srgbClr val="${hex}">${alphaXml}</a:srgbClr></a:solidFill><a:latin typeface="${PPTX_FONT}"/></a:rPr><a:t>${escapeXml(text)}</a:t></a:r>`;
+}
+
+function paragraphXml(align: string, runs: string, endSize: number): string {
+  return `<a:p><a:pPr algn="${align}"/>${runs}<a:endParaRPr lang="en-US" sz="${endSize}" dirty="0"/></a:p>`;
+}
+
+function textBodyXml(shape: Box, ctx: SlideContext): string {
+  const label = { ...DEFAULT_LABEL, ...shape.label };
+  const inset = emu(getLabelInset(shape), ctx);
+  const padding = emu(LABEL_PADDING, ctx);
+
+  if (hasPersonCard(shape)) {
+    const card = layoutCard(shape);
+    // With an avatar, text starts to the right of it like on the canvas
+    const leftInset = card?.avatar
+      ? emu(card.lines[0]?.x ?? shape.x, ctx) - emu(shape.x, ctx)
+      : inset;
+    const paragraphs = getCardEntries(shape)
+      .map((entry) =>
+        paragraphXml(
+          card?.avatar ? "l" : "ctr",
+          runXml(
+            entry.text,
+            fontSize(entry.fontSize, ctx),
+            entry.fontWeight === "bold",
+            label.color,
+            entry.opacity
+          ),
+          fontSize(entry.fontSize, ctx)
+        )
+      )
+      .join("");
+    return `<p:txBody><a:bodyPr wrap="square" lIns="${leftInset}" tIns="${padding}" rIns="${inset}" bIns="${padding}" anchor="ctr" rtlCol="0"/><a:lstStyle/>${paragraphs}</p:txBody>`;
+  }
+
+  const align = { left: "l", center: "ctr", right: "r" }[label.align];
+  const size = fontSize(label.fontSize, ctx);
+  const paragraphs = label.text
+    .split("\n")
+    .map((line) =>
+      paragraphXml(
+        align,
+        line
+          ? runXml(line, size, label.fontWeight === "bold", label.color)
+          : "",
+        size
+      )
+    )
+    .join("");
+  return `<p:txBody><a:bodyPr wrap="square" lIns="${inset}" tIns="${padding}" rIns="${inset}" bIns="${padding}" anchor="ctr" rtlCol="0"/><a:lstStyle/>${paragraphs}</p:txBody>`;
+}
+
+function presetGeometry(shape: Shape): string {
+  if (shape.type === "ellipse") {
+    return '<a:prstGeom prst="ellipse"><a:avLst/></a:prstGeom>';
+  }
+  if (shape.type === "triangle") {
+    return '<a:prstGeom prst="triangle"><a:avLst/></a:prstGeom>';
+  }
+  if (shape.type === "rectangle" && shape.cornerRadius > 0) {
+    // Corner radius as a share of the shorter side, capped at a half
+    const adj = Math.min(
+      50_000,
+      Math.round(
+        (shape.cornerRadius / Math.min(shape.width, shape.height)) * 100_000
+      )
+    );
+    return `<a:prstGeom prst="roundRect"><a:avLst><a:gd name="adj" fmla="val ${adj}"/></a:avLst></a:prstGeom>`;
+  }
+  return '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>';
+}
+
+function spXml(
+  id: number,
+  name: string,
+  shape: Exclude<Shape, ElbowConnectorShape>,
+  x: number,
+  y: number,
+  ctx: SlideContext,
+  textBody = ""
+): string {
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr>${xfrmXml(x, y, shape.width, shape.height, ctx, rotationAttr(shape.rotation))}${presetGeometry(shape)}${fillXml(shape.fill)}${lineXml(shape.stroke, shape.strokeWidth, ctx)}</p:spPr>${textBody}</p:sp>`;
+}
+
+function avatarXml(shape: Box, ctx: SlideContext): string {
+  const avatar = layoutCard(shape)?.avatar;
+  if (!(avatar && JPEG_DATA_URI_REGEX.test(avatar.href))) {
+    return "";
+  }
+  const binary = atob(avatar.href.replace(JPEG_DATA_URI_REGEX, ""));
+  const index = ctx.media.length + 1;
+  const rId = `rId${index + 1}`;
+  ctx.media.push({
+    rId,
+    path: `media/image${index}.jpeg`,
+    data: new Uint8Array(Array.from(binary, (c) => c.charCodeAt(0))),
+  });
+
+  const id = ctx.nextId++;
+  return `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Avatar ${id}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="${rId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill><p:spPr>${xfrmXml(avatar.x, avatar.y, avatar.size, avatar.size, ctx, rotationAttr(shape.rotation))}<a:prstGeom prst="ellipse"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+}
+
+function boxXml(shape: Exclude<Shape, ElbowConnectorShape>, ctx: SlideContext) {
+  const parts: string[] = [];
+  if (shape.stacked) {
+    const backId = ctx.nextId++;
+    parts.push(
+      spXml(
+        backId,
+        `Stack ${backId}`,
+        shape,
+        shape.x + STACK_OFFSET.x,
+        shape.y + STACK_OFFSET.y,
+        ctx
+      )
+    );
+  }
+
+  const id = ctx.nextId++;
+  ctx.drawingIds.set(shape.id, { id, sites: CONNECTION_SITES[shape.type] });
+  const isBox = shape.type === "rectangle" || shape.type === "ellipse";
+  const name = isBox && shape.person?.name ? shape.person.name : `Shape ${id}`;
+  parts.push(
+    spXml(
+      id,
+      name,
+      shape,
+      shape.x,
+      shape.y,
+      ctx,
+      isBox ? textBodyXml(shape, ctx) : ""
+    )
+  );
+  if (isBox) {
+    parts.push(avatarXml(shape, ctx));
+  }
+  return parts.join("");
+}
+
+/**
+ * Elbow connectors map to bentConnector3 (tree links) or bentConnector4
+ * (stacked children). Connectors that leave vertically are drawn rotated
+ * by 90 degrees, the same way PowerPoint stores them, and bend positions
+ * are expressed as fractions of the rotated, possibly flipped, frame.
+ */
+function connectorXml(shape: ElbowConnectorShape, ctx: SlideContext): string {
+  const points = getElbowPoints(shape);
+  const start = shape.startPoint;
+  const end = shape.endPoint;
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const vertical = shape.startDirection === "vertical";
+
+  // Frame size before rotation
+  const width = vertical ? Math.abs(dy) : Math.abs(dx);
+  const height = vertical ? Math.abs(dx) : Math.abs(dy);
+  const flipH = vertical ? dy < 0 : dx < 0;
+  const flipV = vertical ? dx > 0 : dy < 0;
+  const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+
+  // Position of a canvas point within the unrotated, unflipped frame (0-1)
+  const toFrame = (p: Point) => {
+    const rel = { x: p.x - center.x, y: p.y - center.y };
+    let u = vertical ? rel.y : rel.x;
+    let v = vertical ? -rel.x : rel.y;
+    u = flipH ? -u : u;
+    v = flipV ? -v : v;
+    return {
+      u: width === 0 ? 0.5 : u / width + 0.5,
+      v: height === 0 ? 0.5 : v / height + 0.5,
+    };
+  };
+
+  const bends = points.slice(1, -1);
+  const isFourBend = bends.length === 3;
+  const guides = isFourBend
+    ? [toFrame(bends[0]).u, toFrame(bends[1]).v]
+    : [toFrame(bends[0] ?? center).u];
+  const avLst = guides
+    .map(
+      (value, index) =>
+        `<a:gd name="adj${index + 1}" fmla="val ${Math.round(value * 100_000)}"/>`
+    )
+    .join("");
+
+  const attrs = [
+    vertical ? ' rot="5400000"' : "",
+    flipH ? ' flipH="1"' : "",
+    flipV ? ' flipV="1"' : "",
+  ].join("");
+
+  const cxn = (binding: ConnectorBinding | undefined, tag: string) => {
+    const target = binding ? ctx.drawingIds.get(binding.shapeId) : undefined;
+    const site = binding ? target?.sites[binding.side] : undefined;
+    if (!target || site === undefined) {
+      return "";
+    }
+    return `<a:${tag} id="${target.id}" idx="${site}"/>`;
+  };
+
+  const id = ctx.nextId++;
+  const ends = `<a:headEnd type="${LINE_ENDS[shape.startArrowhead]}"/><a:tailEnd type="${LINE_ENDS[shape.endArrowhead]}"/>`;
+  return `<p:cxnSp><p:nvCxnSpPr><p:cNvPr id="${id}" name="Connector ${id}"/><p:cNvCxnSpPr>${cxn(shape.startBinding, "stCxn")}${cxn(shape.endBinding, "endCxn")}</p:cNvCxnSpPr><p:nvPr/></p:nvCxnSpPr><p:spPr>${xfrmXml(center.x - width / 2, center.y - height / 2, width, height, ctx, attrs)}<a:prstGeom prst="${isFourBend ? "bentConnector4" : "bentConnector3"}"><a:avLst>${avLst}</a:avLst></a:prstGeom>${lineXml(shape.stroke, shape.strokeWidth, ctx, ends)}</p:spPr></p:cxnSp>`;
+}
+
+const THEME_XML = `${XML_HEADER}<a:theme ${NS} name="Baganify"><a:themeElements><a:clrScheme name="Office"><a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1><a:dk2><a:srgbClr val="44546A"/></a:dk2><a:lt2><a:srgbClr val="E7E6E6"/></a:lt2><a:accent1><a:srgbClr val="4472C4"/></a:accent1><a:accent2><a:srgbClr val="ED7D31"/></a:accent2><a:accent3><a:srgbClr val="A5A5A5"/></a:accent3><a:accent4><a:srgbClr val="FFC000"/></a:accent4><a:accent5><a:srgbClr val="5B9BD5"/></a:accent5><a:accent6><a:srgbClr val="70AD47"/></a:accent6><a:hlink><a:srgbClr val="0563C1"/></a:hlink><a:folHlink><a:srgbClr val="954F72"/></a:folHlink></a:clrScheme><a:fontScheme name="Office"><a:majorFont><a:latin typeface="${PPTX_FONT}"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont><a:minorFont><a:latin typeface="${PPTX_FONT}"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme><a:fmtScheme name="Office"><a:fillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:fillStyleLst><a:lnStyleLst><a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="12700"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="19050"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln></a:lnStyleLst><a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst><a:bgFillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:bgFillStyleLst></a:fmtScheme></a:themeElements></a:theme>`;
+
+const EMPTY_TREE =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>';
+
+const SLIDE_MASTER_XML = `${XML_HEADER}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${EMPTY_TREE}</p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/><p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles></p:sldMaster>`;
+
+const SLIDE_LAYOUT_XML = `${XML_HEADER}<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${EMPTY_TREE}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+
+function relationshipsXml(
+  relationships: { id: string; type: string; target: string }[]
+): string {
+  const items = relationships
+    .map(
+      (rel) =>
+        `<Relationship Id="${rel.id}" Type="${REL_NS}/${rel.type}" Target="${rel.target}"/>`
+    )
+    .join("");
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items}</Relationships>`;
+}
+
+function contentTypesXml(): string {
+  const overrides = [
+    ["/ppt/presentation.xml", "presentation.main+xml"],
+    ["/ppt/slideMasters/slideMaster1.xml", "slideMaster+xml"],
+    ["/ppt/slideLayouts/slideLayout1.xml", "slideLayout+xml"],
+    ["/ppt/slides/slide1.xml", "slide+xml"],
+    ["/ppt/presProps.xml", "presProps+xml"],
+  ]
+    .map(
+      ([part, type]) =>
+        `<Override PartName="${part}" ContentType="application/vnd.openxmlformats-officedocument.presentationml.${type}"/>`
+    )
+    .join("");
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="jpeg" ContentType="image/jpeg"/>${overrides}<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/></Types>`;
+}
+
+/**
+ * Build a single-slide PowerPoint file with native, editable shapes.
+ * Boxes keep their fill, outline and text; elbow connectors become
+ * connector shapes glued to the boxes they join, so they follow the
+ * boxes when moved in PowerPoint. The slide is sized to the chart.
+ */
+export function shapesToPPTX(shapes: Shape[]): Blob {
+  const bbox = getShapesBoundingBox(shapes);
+  const scale = Math.min(
+    1,
+    MAX_SLIDE_EMU / (bbox.width * EMU_PER_PX),
+    MAX_SLIDE_EMU / (bbox.height * EMU_PER_PX)
+  );
+  const ctx: SlideContext = {
+    origin: { x: bbox.x, y: bbox.y },
+    scale,
+    drawingIds: new Map(),
+    nextId: 2,
+    media: [],
+  };
+
+  // Boxes first so connectors can refer to their drawing ids
+  const boxes = shapes
+    .filter(
+      (s): s is Exclude<Shape, ElbowConnectorShape> =>
+        s.type !== "elbow-connector"
+    )
+    .map((s) => boxXml(s, ctx));
+  const connectors = shapes
+    .filter((s): s is ElbowConnectorShape => s.type === "elbow-connector")
+    .map((s) => connectorXml(s, ctx));
+
+  const slideWidth = Math.max(MIN_SLIDE_EMU, emu(bbox.width, ctx));
+  const slideHeight = Math.max(MIN_SLIDE_EMU, emu(bbox.height, ctx));
+
+  const slideXml = `${XML_HEADER}<p:sld ${NS}><p:cSld><p:spTree>${EMPTY_TREE}${boxes.join("")}${connectors.join("")}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+  const presentationXml = `${XML_HEADER}<p:presentation ${NS} saveSubsetFonts="1"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst><p:sldSz cx="${slideWidth}" cy="${slideHeight}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`;
+
+  const entries: ZipEntry[] = [
+    { name: "[Content_Types].xml", data: contentTypesXml() },
+    {
+      name: "_rels/.rels",
+      data: relationshipsXml([
+        { id: "rId1", type: "officeDocument", target: "ppt/presentation.xml" },
+      ]),
+    },
+    { name: "ppt/presentation.xml", data: presentationXml },
+    {
+      name: "ppt/_rels/presentation.xml.rels",
+      data: relationshipsXml([
+        {
+          id: "rId1",
+          type: "slideMaster",
+          target: "slideMasters/slideMaster1.xml",
+        },
+        { id: "rId2", type: "slide", target: "slides/slide1.xml" },
+        { id: "rId3", type: "theme", target: "theme/theme1.xml" },
+        { id: "rId4", type: "presProps", target: "presProps.xml" },
+      ]),
+    },
+    {
+      name: "ppt/presProps.xml",
+      data: `${XML_HEADER}<p:presentationPr ${NS}/>`,
+    },
+    { name: "ppt/theme/theme1.xml", data: THEME_XML },
+    { name: "ppt/slideMasters/slideMaster1.xml", data: SLIDE_MASTER_XML },
+    {
+      name: "ppt/slideMasters/_rels/slideMaster1.xml.rels",
+      data: relationshipsXml([
+        {
+          id: "rId1",
+          type: "slideLayout",
+          target: "../slideLayouts/slideLayout1.xml",
+        },
+        { id: "rId2", type: "theme", target: "../theme/theme1.xml" },
+      ]),
+    },
+    { name: "ppt/slideLayouts/slideLayout1.xml", data: SLIDE_LAYOUT_XML },
+    {
+      name: "ppt/slideLayouts/_rels/slideLayout1.xml.rels",
+      data: relationshipsXml([
+        {
+          id: "rId1",
+          type: "slideMaster",
+          target: "../slideMasters/slideMaster1.xml",
+        },
+      ]),
+    },
+    { name: "ppt/slides/slide1.xml", data: slideXml },
+    {
+      name: "ppt/slides/_rels/slide1.xml.rels",
+      data: relationshipsXml([
+        {
+          id: "rId1",
+          type: "slideLayout",
+          target: "../slideLayouts/slideLayout1.xml",
+        },
+        ...ctx.media.map((m) => ({
+          id: m.rId,
+          type: "image",
+          target: `../${m.path}`,
+        })),
+      ]),
+    },
+    ...ctx.media.map((m) => ({ name: `ppt/${m.path}`, data: m.data })),
+  ];
+
+  return createZip(entries, PPTX_MIME);
+}
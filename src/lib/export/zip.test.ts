@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "./crc32";
+import { createZip, readZip } from "./zip";
+
+const encoder = new TextEncoder();
+
+async function zipBytes(
+  entries: Parameters<typeof createZip>[0]
+): Promise<Uint8Array<ArrayBuffer>> {
+  const blob = createZip(entries, "application/zip");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe("crc32", () => {
+  it("matches the IEEE check values", () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+    expect(crc32(encoder.encode("123456789"))).toBe(0xcb_f4_39_26);
+    expect(
+      crc32(encoder.encode("The quick brown fox jumps over the lazy dog"))
+    ).toBe(0x41_4f_a3_39);
+  });
+});
+
+describe("createZip and readZip", () => {
+  it("round-trips text and binary entries with UTF-8 names", async () => {
+    const binary = new Uint8Array([0, 255, 1, 254, 128]);
+    const bytes = await zipBytes([
+      { name: "charts/Organigram ü.json", data: '{"name":"Tëam"}' },
+      { name: "empty.txt", data: "" },
+      { name: "image.bin", data: binary },
+    ]);
+
+    expect(readZip(bytes)).toEqual([
+      {
+        name: "charts/Organigram ü.json",
+        data: encoder.encode('{"name":"Tëam"}'),
+      },
+      { name: "empty.txt", data: new Uint8Array() },
+      { name: "image.bin", data: binary },
+    ]);
+  });
+
+  it("reads an archive with no entries", async () => {
+    expect(readZip(await zipBytes([]))).toEqual([]);
+  });
+
+  it("finds the end record behind an archive comment", async () => {
+    const bytes = await zipBytes([{ name: "a.txt", data: "a" }]);
+    const comment = encoder.encode("backup");
+    const withComment = new Uint8Array(bytes.length + comment.length);
+    withComment.set(bytes);
+    withComment.set(comment, bytes.length);
+    new DataView(withComment.buffer).setUint16(
+      bytes.length - 2,
+      comment.length,
+      true
+    );
+
+    expect(readZip(withComment).map((entry) => entry.name)).toEqual(["a.txt"]);
+  });
+
+  it("rejects files that aren't zip archives", () => {
+    expect(() =>
+      readZip(encoder.encode("not a zip at all, just text"))
+    ).toThrow("Not a zip archive");
+  });
+
+  it("rejects entries whose data no longer matches the checksum", async () => {
+    const bytes = await zipBytes([{ name: "a.txt", data: "hello" }]);
+    // Local header (30 bytes) and the 5-byte name come before the data
+    bytes[35] = "j".charCodeAt(0);
+    expect(() => readZip(bytes)).toThrow("Corrupt zip entry a.txt");
+  });
+
+  it("rejects compressed entries", async () => {
+    const bytes = await zipBytes([{ name: "a.txt", data: "hello" }]);
+    const directory = bytes.length - 22 - (46 + 5);
+    new DataView(bytes.buffer).setUint16(directory + 10, 8, true);
+    expect(() => readZip(bytes)).toThrow(
+      "Compressed zip entries are not supported"
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { crc32 } from "./crc32";
+
+export interface ZipEntry {
+  name: string;
+  data: string | Uint8Array<ArrayBuffer>;
+}
+
+const encoder = new TextEncoder();
+
+// MS-DOS date/time fields used by zip headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      date.getHours() * 2048 +
+      date.getMinutes() * 32 +
+      Math.floor(date.getSeconds() / 2),
+    date:
+      Math.max(0, date.getFullYear() - 1980) * 512 +
+      (date.getMonth() + 1) * 32 +
+      date.getDate(),
+  };
+}
+
+/**
+ * Write an uncompressed (stored) zip archive. Office documents and backups
+ * are small enough that skipping deflate keeps this dependency-free.
+ */
+export function createZip(entries: ZipEntry[], mimeType: string): Blob {
+  const { time, date } = toDosDateTime(new Date());
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data =
+      typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const checksum = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04_03_4b_50, true);
+    localView.setUint16(4, 20, true); // Version needed
+    localView.setUint16(6, 0x08_00, true); // UTF-8 names
+    localView.setUint16(8, 0, true); // Stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x02_01_4b_50, true);
+    headerView.setUint16(4, 20, true); // Version made by
+    headerView.setUint16(6, 20, true);
+    headerView.setUint16(8, 0x08_00, true);
+    headerView.setUint16(10, 0, true);
+    headerView.setUint16(12, time, true);
+    headerView.setUint16(14, date, true);
+    headerView.setUint32(16, checksum, true);
+    headerView.setUint32(20, data.length, true);
+    headerView.setUint32(24, data.length, true);
+    headerView.setUint16(28, name.length, true);
+    headerView.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, data);
+    central.push(header);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, h) => sum + h.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06_05_4b_50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: mimeType });
+}
+
+/**
+ * Read the entries of a zip archive written by `createZip`. Only stored
+ * entries are supported; throws if the archive is malformed or compressed.
+ */
+export function readZip(bytes: Uint8Array<ArrayBuffer>): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end unless an archive comment follows
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06_05_4b_50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error("Not a zip archive");
+  }
+
+  const entries: ZipEntry[] = [];
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== 0x02_01_4b_50) {
+      throw new Error("Corrupt zip directory");
+    }
+    if (view.getUint16(position + 10, true) !== 0) {
+      throw new Error("Compressed zip entries are not supported");
+    }
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(position + 46, position + 46 + nameLength)
+    );
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + size);
+    if (
+      data.length !== size ||
+      crc32(data) !== view.getUint32(position + 16, true)
+    ) {
+      throw new Error(`Corrupt zip entry ${name}`);
+    }
+
+    entries.push({ name, data });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { RectangleShape } from "../shapes/types";
+import { buildOrgChart, guessColumnMapping, parseDelimited } from "./csv";
+
+describe("parseDelimited", () => {
+  it("detects tabs and semicolons from the header line", () => {
+    expect(parseDelimited("id\tname\n1\tAda").rows[0].cells).toEqual([
+      "1",
+      "Ada",
+    ]);
+    expect(parseDelimited("id;name\n1;Ada, PhD").rows[0].cells).toEqual([
+      "1",
+      "Ada, PhD",
+    ]);
+  });
+
+  it("reads quoted fields with delimiters, escaped quotes and newlines", () => {
+    const table = parseDelimited(
+      'id,name,title\n1,"Lovelace, Ada","Says ""hi""\ntwice"\n2,Bob,CTO'
+    );
+    expect(table.headers).toEqual(["id", "name", "title"]);
+    expect(table.rows).toEqual([
+      { line: 2, cells: ["1", "Lovelace, Ada", 'Says "hi"\ntwice'] },
+      { line: 4, cells: ["2", "Bob", "CTO"] },
+    ]);
+  });
+
+  it("strips the BOM, normalizes line breaks and skips blank rows", () => {
+    const table = parseDelimited("\uFEFFid,name\r\n\r\n1,Ada\r2,Bob\n,\n");
+    expect(table.headers).toEqual(["id", "name"]);
+    expect(table.rows).toEqual([
+      { line: 3, cells: ["1", "Ada"] },
+      { line: 4, cells: ["2", "Bob"] },
+    ]);
+  });
+
+  it("returns an empty table for empty text", () => {
+    expect(parseDelimited("")).toEqual({ headers: [], rows: [] });
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("matches common header spellings and leaves the rest unmapped", () => {
+    expect(
+      guessColumnMapping([
+        "Employee ID",
+        "Full Name",
+        "Job Title",
+        "Reports To",
+      ])
+    ).toEqual({
+      id: "Employee ID",
+      name: "Full Name",
+      title: "Job Title",
+      department: null,
+      email: null,
+      managerId: "Reports To",
+    });
+  });
+});
+
+describe("buildOrgChart", () => {
+  const build = (text: string) => {
+    const table = parseDelimited(text);
+    return buildOrgChart(table, guessColumnMapping(table.headers));
+  };
+
+  it("builds boxes at their reporting depth with connectors to managers", () => {
+    const result = build("id,name,manager\n1,Ada,\n2,Bob,1\n3,Cy,2");
+    const boxes = result.shapes.filter(
+      (s): s is RectangleShape => s.type === "rectangle"
+    );
+    const connectors = result.shapes.filter(
+      (s) => s.type === "elbow-connector"
+    );
+
+    expect(result.nodeCount).toBe(3);
+    expect(result.issues).toEqual([]);
+    expect(boxes.map((b) => [b.person?.name, b.level])).toEqual([
+      ["Ada", 0],
+      ["Bob", 1],
+      ["Cy", 2],
+    ]);
+    expect(
+      connectors.map((c) => [c.startBinding?.shapeId, c.endBinding?.shapeId])
+    ).toEqual([
+      [boxes[0].id, boxes[1].id],
+      [boxes[1].id, boxes[2].id],
+    ]);
+  });
+
+  it("reports missing and duplicate ids and unknown managers by line", () => {
+    const result = build("id,name,manager\n,Nobody,\n1,Ada,9\n1,Again,");
+    expect(result.nodeCount).toBe(1);
+    expect(result.issues).toEqual([
+      { line: 2, message: "Missing id, row skipped" },
+      {
+        line: 3,
+        message: 'Unknown manager id "9", imported as a top-level box',
+      },
+      {
+        line: 4,
+        message: 'Duplicate id "1" (first used on line 3), row skipped',
+      },
+    ]);
+  });
+
+  it("breaks a reporting cycle at its first row", () => {
+    const result = build("id,manager\n1,3\n2,1\n3,2");
+    expect(result.issues).toEqual([
+      {
+        line: 2,
+        message: "Reporting cycle 1 → 3 → 2 → 1, manager link removed",
+      },
+    ]);
+    expect(
+      result.shapes.filter((s) => s.type === "elbow-connector")
+    ).toHaveLength(2);
+  });
+});
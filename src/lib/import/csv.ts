@@ -0,0 +1,319 @@
+import type { PersonCard, RectangleShape, Shape } from "../shapes/types";
+import { createOrgConnector, createRectangle } from "../shapes/types";
+
+export interface DelimitedRow {
+  // 1-based line in the source text where the row starts
+  line: number;
+  cells: string[];
+}
+
+export interface DelimitedTable {
+  headers: string[];
+  rows: DelimitedRow[];
+}
+
+export type ImportField = "id" | keyof Omit<PersonCard, "avatar"> | "managerId";
+
+// Header name per field, null when the field is not imported
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  shapes: Shape[];
+  issues: ImportIssue[];
+  nodeCount: number;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: "id", label: "Id" },
+  { field: "name", label: "Name" },
+  { field: "title", label: "Title" },
+  { field: "department", label: "Department" },
+  { field: "email", label: "Email" },
+  { field: "managerId", label: "Manager id" },
+];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  id: ["id", "employeeid", "empid", "employeenumber", "staffid"],
+  name: ["name", "fullname", "employeename", "employee"],
+  title: ["title", "jobtitle", "position", "role"],
+  department: ["department", "dept", "team", "division"],
+  email: ["email", "emailaddress", "mail"],
+  managerId: [
+    "managerid",
+    "manager",
+    "reportsto",
+    "parentid",
+    "supervisorid",
+    "bossid",
+  ],
+};
+
+const BOM_REGEX = /^\uFEFF/;
+const LINE_BREAK_REGEX = /\r\n?/g;
+const NON_LETTER_REGEX = /[^a-z]/g;
+
+function detectDelimiter(firstLine: string): string {
+  const candidates = ["\t", ",", ";"];
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Reads a quoted field starting just after its opening quote
+function readQuotedField(
+  source: string,
+  start: number
+): { value: string; end: number; newlines: number } {
+  let value = "";
+  let newlines = 0;
+  let i = start;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' && source[i + 1] === '"') {
+      value += '"';
+      i += 2;
+      continue;
+    }
+    if (char === '"') {
+      return { value, end: i + 1, newlines };
+    }
+    if (char === "\n") {
+      newlines++;
+    }
+    value += char;
+    i++;
+  }
+  return { value, end: i, newlines };
+}
+
+/**
+ * Parse CSV/TSV text (RFC 4180 quoting). The delimiter is detected from the
+ * header line, and every row keeps the line number it started on so issues
+ * can point back to the spreadsheet.
+ */
+export function parseDelimited(text: string): DelimitedTable {
+  const source = text.replace(BOM_REGEX, "").replace(LINE_BREAK_REGEX, "\n");
+  const delimiter = detectDelimiter(source.split("\n", 1)[0] ?? "");
+
+  const records: DelimitedRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== "")) {
+      records.push({ line: rowLine, cells: cells.map((c) => c.trim()) });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' && cell.trim() === "") {
+      const quoted = readQuotedField(source, i + 1);
+      cell = quoted.value;
+      line += quoted.newlines;
+      i = quoted.end;
+      continue;
+    }
+
+    if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+  if (cell !== "" || cells.length > 0) {
+    endRow();
+  }
+
+  const [header, ...rows] = records;
+  return { headers: header?.cells ?? [], rows };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((h) =>
+    h.toLowerCase().replace(NON_LETTER_REGEX, "")
+  );
+  const mapping = {} as ColumnMapping;
+  for (const { field } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((h) =>
+      HEADER_ALIASES[field].includes(h)
+    );
+    mapping[field] = index === -1 ? null : headers[index];
+  }
+  return mapping;
+}
+
+interface EmployeeRow {
+  line: number;
+  id: string;
+  managerId: string;
+  person: PersonCard;
+}
+
+function readRows(
+  table: DelimitedTable,
+  mapping: ColumnMapping,
+  issues: ImportIssue[]
+): EmployeeRow[] {
+  const columnIndex = (field: ImportField) => {
+    const header = mapping[field];
+    return header === null ? -1 : table.headers.indexOf(header);
+  };
+  const indices = Object.fromEntries(
+    IMPORT_FIELDS.map(({ field }) => [field, columnIndex(field)])
+  ) as Record<ImportField, number>;
+  const read = (row: DelimitedRow, field: ImportField) =>
+    indices[field] === -1 ? "" : (row.cells[indices[field]] ?? "");
+
+  const seen = new Map<string, number>();
+  const employees: EmployeeRow[] = [];
+
+  for (const row of table.rows) {
+    const id = read(row, "id");
+    if (!id) {
+      issues.push({ line: row.line, message: "Missing id, row skipped" });
+      continue;
+    }
+    const firstLine = seen.get(id);
+    if (firstLine !== undefined) {
+      issues.push({
+        line: row.line,
+        message: `Duplicate id "${id}" (first used on line ${firstLine}), row skipped`,
+      });
+      continue;
+    }
+    seen.set(id, row.line);
+
+    employees.push({
+      line: row.line,
+      id,
+      managerId: read(row, "managerId"),
+      person: {
+        name: read(row, "name"),
+        title: read(row, "title"),
+        department: read(row, "department"),
+        email: read(row, "email"),
+      },
+    });
+  }
+
+  return employees;
+}
+
+// Drop manager links that point nowhere or close a reporting loop
+function resolveManagers(
+  employees: EmployeeRow[],
+  issues: ImportIssue[]
+): Map<string, string> {
+  const byId = new Map(employees.map((e) => [e.id, e]));
+  const managerOf = new Map<string, string>();
+
+  for (const employee of employees) {
+    if (!employee.managerId) {
+      continue;
+    }
+    if (byId.has(employee.managerId)) {
+      managerOf.set(employee.id, employee.managerId);
+    } else {
+      issues.push({
+        line: employee.line,
+        message: `Unknown manager id "${employee.managerId}", imported as a top-level box`,
+      });
+    }
+  }
+
+  const cleared = new Set<string>();
+  for (const employee of employees) {
+    const path: string[] = [];
+    let current: string | undefined = employee.id;
+    while (current && !cleared.has(current) && !path.includes(current)) {
+      path.push(current);
+      current = managerOf.get(current);
+    }
+    if (current && path.includes(current)) {
+      const cycle = path.slice(path.indexOf(current));
+      // Break the loop at the row that appears first in the file
+      const breakAt = cycle
+        .map((id) => byId.get(id) as EmployeeRow)
+        .reduce((first, e) => (e.line < first.line ? e : first));
+      managerOf.delete(breakAt.id);
+      issues.push({
+        line: breakAt.line,
+        message: `Reporting cycle ${[...cycle, cycle[0]].join(" → ")}, manager link removed`,
+      });
+    }
+    for (const id of path) {
+      cleared.add(id);
+    }
+  }
+
+  return managerOf;
+}
+
+/**
+ * Turn spreadsheet rows into person-card boxes plus parent→child connectors,
+ * the same structure `addChild` produces. Positions are left to the layout.
+ */
+export function buildOrgChart(
+  table: DelimitedTable,
+  mapping: ColumnMapping
+): ImportResult {
+  const issues: ImportIssue[] = [];
+  const employees = readRows(table, mapping, issues);
+  const managerOf = resolveManagers(employees, issues);
+
+  const depthOf = (id: string) => {
+    let depth = 0;
+    let current = managerOf.get(id);
+    while (current) {
+      depth++;
+      current = managerOf.get(current);
+    }
+    return depth;
+  };
+
+  const boxIds = new Map<string, string>();
+  const boxes: RectangleShape[] = employees.map((employee) => {
+    const box = createRectangle(0, 0, depthOf(employee.id));
+    box.person = employee.person;
+    boxIds.set(employee.id, box.id);
+    return box;
+  });
+
+  const connectors = employees.flatMap((employee) => {
+    const managerId = managerOf.get(employee.id);
+    const parentBoxId = managerId ? boxIds.get(managerId) : undefined;
+    const childBoxId = boxIds.get(employee.id);
+    if (!(parentBoxId && childBoxId)) {
+      return [];
+    }
+    return [createOrgConnector(parentBoxId, childBoxId, "horizontal")];
+  });
+
+  issues.sort((a, b) => a.line - b.line);
+  return { shapes: [...boxes, ...connectors], issues, nodeCount: boxes.length };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  createOrgConnector,
+  createRectangle,
+  type RectangleShape,
+  type Shape,
+} from "../shapes/types";
+import {
+  canReparent,
+  getSiblingConnectors,
+  sortBySiblingOrder,
+} from "./algorithm";
+
+function box(id: string, childLayout?: RectangleShape["childLayout"]) {
+  return { ...createRectangle(0, 0), id, childLayout };
+}
+
+function link(parent: RectangleShape, child: RectangleShape): Shape {
+  return createOrgConnector(parent.id, child.id, parent.childLayout);
+}
+
+// root ─┬─ a ── a1
+//       └─ b
+function orgChart(): Shape[] {
+  const root = box("root");
+  const a = box("a");
+  const a1 = box("a1");
+  const b = box("b");
+  return [root, a, a1, b, link(root, a), link(a, a1), link(root, b)];
+}
+
+describe("canReparent", () => {
+  it("allows moving a box with its subtree under another box", () => {
+    expect(canReparent("a", "b", orgChart())).toBe(true);
+    expect(canReparent("a1", "root", orgChart())).toBe(true);
+  });
+
+  it("rejects the current parent, the box itself and its descendants", () => {
+    expect(canReparent("a", "root", orgChart())).toBe(false);
+    expect(canReparent("a", "a", orgChart())).toBe(false);
+    expect(canReparent("root", "a1", orgChart())).toBe(false);
+  });
+
+  it("rejects anything that isn't a box", () => {
+    const shapes = orgChart();
+    const connectorId = shapes[4].id;
+    expect(canReparent(connectorId, "b", shapes)).toBe(false);
+    expect(canReparent("a", connectorId, shapes)).toBe(false);
+    expect(canReparent("a", "missing", shapes)).toBe(false);
+  });
+
+  it("keeps stacks one level deep", () => {
+    const root = box("root", "vertical");
+    const stacked = box("stacked");
+    const other = box("other");
+    const withChild = box("withChild");
+    const leaf = box("leaf");
+    const shapes = [
+      root,
+      stacked,
+      other,
+      withChild,
+      leaf,
+      link(root, stacked),
+      link(withChild, leaf),
+    ];
+    // A stacked item can't get children of its own
+    expect(canReparent("other", "stacked", shapes)).toBe(false);
+    // Only leaves can join a stack
+    expect(canReparent("withChild", "root", shapes)).toBe(false);
+    expect(canReparent("other", "root", shapes)).toBe(true);
+  });
+
+  it("stops walking up at a connector cycle", () => {
+    const a = box("a");
+    const b = box("b");
+    const shapes = [a, b, box("c"), link(a, b), link(b, a)];
+    expect(canReparent("c", "a", shapes)).toBe(true);
+  });
+});
+
+describe("sortBySiblingOrder", () => {
+  it("puts ordered connectors first and keeps the rest in place", () => {
+    const root = box("root");
+    const [x, y, z] = ["x", "y", "z"].map((id) => ({
+      ...createOrgConnector(root.id, id, undefined),
+      id,
+    }));
+    expect(
+      sortBySiblingOrder([
+        x,
+        { ...y, siblingOrder: 1 },
+        z,
+        { ...x, id: "w", siblingOrder: 0 },
+      ]).map((c) => c.id)
+    ).toEqual(["w", "y", "x", "z"]);
+  });
+});
+
+describe("getSiblingConnectors", () => {
+  it("lists the connectors from the box's parent in layout order", () => {
+    const shapes = orgChart();
+    const [toA, , toB] = shapes.slice(4);
+    const reordered = shapes.map((s) =>
+      s.id === toB.id ? { ...s, siblingOrder: 0 } : s
+    );
+    expect(getSiblingConnectors("a", reordered)?.map((c) => c.id)).toEqual([
+      toB.id,
+      toA.id,
+    ]);
+  });
+
+  it("returns null for a root", () => {
+    expect(getSiblingConnectors("root", orgChart())).toBeNull();
+  });
+});
@@ -1,3 +1,4 @@
+import { fitBoxToContent } from "../shapes/autosize";
 import type {
   ElbowConnectorShape,
   EllipseShape,
@@ -45,6 +46,87 @@ export function hasGrandchildren(shapeId: string, shapes: Shape[]): boolean {
   return false;
 }
 
+// Parent-child connectors in the order their children are laid out
+export function sortBySiblingOrder(
+  connectors: ElbowConnectorShape[]
+): ElbowConnectorShape[] {
+  const order = (c: ElbowConnectorShape) =>
+    c.siblingOrder ?? Number.MAX_SAFE_INTEGER;
+  return [...connectors].sort((a, b) => order(a) - order(b));
+}
+
+/**
+ * The connectors from a box's parent to it and its siblings, in layout
+ * order, or null for a root.
+ */
+export function getSiblingConnectors(
+  shapeId: string,
+  shapes: Shape[]
+): ElbowConnectorShape[] | null {
+  const connectors = shapes.filter(
+    (s): s is ElbowConnectorShape =>
+      s.type === "elbow-connector" && !!s.startBinding && !!s.endBinding
+  );
+  const parentId = connectors.find((c) => c.endBinding?.shapeId === shapeId)
+    ?.startBinding?.shapeId;
+  if (!parentId) {
+    return null;
+  }
+  return sortBySiblingOrder(
+    connectors.filter((c) => c.startBinding?.shapeId === parentId)
+  );
+}
+
+// Whether a box can be moved, with its subtree, under another box. Rules out
+// cycles, children of stacked items and stacks deeper than one level.
+export function canReparent(
+  shapeId: string,
+  parentId: string,
+  shapes: Shape[]
+): boolean {
+  const byId = new Map(shapes.map((s) => [s.id, s]));
+  const shape = byId.get(shapeId);
+  const parent = byId.get(parentId);
+  if (
+    !(
+      (shape?.type === "rectangle" || shape?.type === "ellipse") &&
+      (parent?.type === "rectangle" || parent?.type === "ellipse")
+    )
+  ) {
+    return false;
+  }
+
+  const parentMap = new Map<string, string>();
+  for (const s of shapes) {
+    if (s.type === "elbow-connector" && s.startBinding && s.endBinding) {
+      parentMap.set(s.endBinding.shapeId, s.startBinding.shapeId);
+    }
+  }
+  if (parentMap.get(shapeId) === parentId) {
+    return false;
+  }
+  // Dropping onto itself or a descendant would cut the subtree off. Stop at
+  // ids already seen, since connectors drawn by hand can form a cycle
+  const visited = new Set<string>();
+  for (
+    let id: string | undefined = parentId;
+    id && !visited.has(id);
+    id = parentMap.get(id)
+  ) {
+    if (id === shapeId) {
+      return false;
+    }
+    visited.add(id);
+  }
+
+  const grandparentId = parentMap.get(parentId);
+  if (grandparentId && byId.get(grandparentId)?.childLayout === "vertical") {
+    return false;
+  }
+  const hasChildren = [...parentMap.values()].includes(shapeId);
+  return !(parent.childLayout === "vertical" && hasChildren);
+}
+
 // Enforce that ancestors of a newly added node must be horizontal if they become "grandparents"
 export function enforceHorizontalParents(
   newChildId: string,
@@ -104,10 +186,13 @@ export function layoutShapesByLevel(
   canvasHeight: number,
   params: LayoutParams = DEFAULT_LAYOUT_PARAMS
 ): Shape[] {
-  const boxes = shapes.filter(
-    (s): s is RectangleShape | EllipseShape =>
-      s.type === "rectangle" || s.type === "ellipse"
-  );
+  // Measure content first so subtree dimensions use the real box sizes
+  const boxes = shapes
+    .filter(
+      (s): s is RectangleShape | EllipseShape =>
+        s.type === "rectangle" || s.type === "ellipse"
+    )
+    .map((box) => fitBoxToContent(box, params));
   const connectors = shapes.filter(
     (s): s is ElbowConnectorShape => s.type === "elbow-connector"
   );
@@ -237,7 +322,7 @@ function buildGraph(
   const childrenMap = new Map<string, string[]>(); // Parent -> Children[]
   const boxMap = new Map(boxes.map((b) => [b.id, b]));
 
-  for (const conn of connectors) {
+  for (const conn of sortBySiblingOrder(connectors)) {
     if (!(conn.startBinding && conn.endBinding)) {
       continue;
     }
@@ -3,10 +3,15 @@ export interface LayoutParams {
   levelHeight: number;
   shapeGap: number;
   verticalIndent: number;
+  // Width constraints for boxes that auto-size to their content
+  minBoxWidth: number;
+  maxBoxWidth: number;
 }
 
 export const DEFAULT_LAYOUT_PARAMS: LayoutParams = {
   levelHeight: 40,
   shapeGap: 20,
   verticalIndent: 0,
+  minBoxWidth: 140,
+  maxBoxWidth: 280,
 };
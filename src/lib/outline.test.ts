@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatOutline,
+  matchOutlineIds,
+  outlineToShapes,
+  parseOutline,
+  shapesToOutline,
+} from "./outline";
+import type { RectangleShape } from "./shapes/types";
+
+const OUTLINE = "CEO\n  CTO\n    Engineer\n  CFO\nAdvisor";
+
+describe("parseOutline", () => {
+  it("nests lines by indentation and skips blank lines", () => {
+    expect(parseOutline("CEO\n\n    CTO\n      Engineer\n    CFO\n")).toEqual([
+      { text: "CEO", depth: 0 },
+      { text: "CTO", depth: 1 },
+      { text: "Engineer", depth: 2 },
+      { text: "CFO", depth: 1 },
+    ]);
+  });
+
+  it("treats tabs like two spaces and closes deeper levels on dedent", () => {
+    expect(parseOutline("A\n\tB\n\t\tC\n  D")).toEqual([
+      { text: "A", depth: 0 },
+      { text: "B", depth: 1 },
+      { text: "C", depth: 2 },
+      { text: "D", depth: 1 },
+    ]);
+  });
+
+  it("round-trips through formatOutline", () => {
+    expect(formatOutline(parseOutline(OUTLINE))).toBe(OUTLINE);
+  });
+});
+
+describe("matchOutlineIds", () => {
+  const before = [
+    { id: "a", text: "CEO", depth: 0 },
+    { id: "b", text: "CTO", depth: 1 },
+    { id: "c", text: "CFO", depth: 1 },
+  ];
+
+  it("keeps ids of unchanged and moved lines", () => {
+    expect(
+      matchOutlineIds(before, [
+        { text: "CFO", depth: 0 },
+        { text: "CEO", depth: 1 },
+        { text: "CTO", depth: 1 },
+      ])
+    ).toEqual(["c", "a", "b"]);
+  });
+
+  it("treats a line edited in place as a rename and new lines as new", () => {
+    expect(
+      matchOutlineIds(before, [
+        { text: "CEO", depth: 0 },
+        { text: "Chief Technology Officer", depth: 1 },
+        { text: "CFO", depth: 1 },
+        { text: "COO", depth: 1 },
+      ])
+    ).toEqual(["a", "b", "c", null]);
+  });
+});
+
+describe("outlineToShapes", () => {
+  it("builds a tree that reads back as the same outline", () => {
+    const shapes = outlineToShapes([], parseOutline(OUTLINE));
+    expect(formatOutline(shapesToOutline(shapes))).toBe(OUTLINE);
+    expect(shapes.filter((s) => s.type === "elbow-connector")).toHaveLength(3);
+  });
+
+  it("keeps box ids and styling across edits and drops removed boxes", () => {
+    const shapes = outlineToShapes([], parseOutline(OUTLINE)).map((s) =>
+      s.type === "rectangle" && s.label?.text === "CTO"
+        ? { ...s, fill: "#ff0000" }
+        : s
+    );
+    const cto = shapes.find(
+      (s): s is RectangleShape =>
+        s.type === "rectangle" && s.label?.text === "CTO"
+    );
+
+    const edited = outlineToShapes(
+      shapes,
+      parseOutline("CEO\n  CTO\n  CFO\nAdvisor")
+    );
+    const boxes = edited.filter(
+      (s): s is RectangleShape => s.type === "rectangle"
+    );
+
+    expect(boxes.map((b) => b.label?.text)).toEqual([
+      "CEO",
+      "CTO",
+      "CFO",
+      "Advisor",
+    ]);
+    expect(boxes[1]).toMatchObject({ id: cto?.id, fill: "#ff0000" });
+    expect(edited.filter((s) => s.type === "elbow-connector")).toHaveLength(2);
+  });
+
+  it("names untitled boxes in the outline", () => {
+    const shapes = outlineToShapes([], parseOutline("Root\n  Child")).map(
+      (s) =>
+        s.type === "rectangle" && s.label?.text === "Child"
+          ? { ...s, label: { ...s.label, text: "  \n " } }
+          : s
+    );
+    expect(formatOutline(shapesToOutline(shapes))).toBe("Root\n  Untitled");
+  });
+});
@@ -0,0 +1,328 @@
+import { sortBySiblingOrder } from "./layout/algorithm";
+import { hasPersonCard } from "./shapes/card";
+import type {
+  ElbowConnectorShape,
+  EllipseShape,
+  RectangleShape,
+  Shape,
+} from "./shapes/types";
+import {
+  createOrgConnector,
+  createRectangle,
+  DEFAULT_LABEL,
+  EMPTY_PERSON,
+} from "./shapes/types";
+
+type Box = RectangleShape | EllipseShape;
+
+// One outline line: a box and how deep it sits in the reporting tree
+export interface OutlineEntry {
+  text: string;
+  depth: number;
+}
+
+export interface OutlineNode extends OutlineEntry {
+  id: string;
+}
+
+// One level of nesting in the text outline
+export const INDENT = "  ";
+const PLACEHOLDER_TEXT = "Untitled";
+const LEADING_WHITESPACE_REGEX = /^[ \t]*/;
+const LINE_BREAKS_REGEX = /\s*\n\s*/g;
+const TAB_REGEX = /\t/g;
+
+const isBox = (s: Shape): s is Box =>
+  s.type === "rectangle" || s.type === "ellipse";
+
+// Same parent rule as the layout: a connector's start box is the parent
+function getParentConnectors(
+  shapes: Shape[]
+): Map<string, ElbowConnectorShape> {
+  const boxIds = new Set(shapes.filter(isBox).map((s) => s.id));
+  const parentConnectors = new Map<string, ElbowConnectorShape>();
+  for (const s of shapes) {
+    if (
+      s.type === "elbow-connector" &&
+      s.startBinding &&
+      s.endBinding &&
+      boxIds.has(s.startBinding.shapeId) &&
+      boxIds.has(s.endBinding.shapeId)
+    ) {
+      parentConnectors.set(s.endBinding.shapeId, s);
+    }
+  }
+  return parentConnectors;
+}
+
+export function getOutlineText(box: Box): string {
+  const text =
+    hasPersonCard(box) && box.person?.name
+      ? box.person.name
+      : (box.label?.text ?? "");
+  return text.replace(LINE_BREAKS_REGEX, " ").trim() || PLACEHOLDER_TEXT;
+}
+
+/**
+ * Walk the chart in the order the layout draws it: roots left to right,
+ * then children in sibling order.
+ */
+export function shapesToOutline(shapes: Shape[]): OutlineNode[] {
+  const boxes = shapes.filter(isBox);
+  const parentConnectors = getParentConnectors(shapes);
+  const childrenMap = new Map<string, string[]>();
+  for (const s of sortBySiblingOrder([...parentConnectors.values()])) {
+    if (!(s.endBinding && s.startBinding)) {
+      continue;
+    }
+    const siblings = childrenMap.get(s.startBinding.shapeId) ?? [];
+    siblings.push(s.endBinding.shapeId);
+    childrenMap.set(s.startBinding.shapeId, siblings);
+  }
+
+  const boxMap = new Map(boxes.map((b) => [b.id, b]));
+  const roots = boxes
+    .filter((b) => !parentConnectors.has(b.id))
+    .sort((a, b) => a.x - b.x || a.id.localeCompare(b.id));
+
+  const nodes: OutlineNode[] = [];
+  const visited = new Set<string>();
+  const visit = (id: string, depth: number) => {
+    const box = boxMap.get(id);
+    if (!box || visited.has(id)) {
+      return;
+    }
+    visited.add(id);
+    nodes.push({ id, text: getOutlineText(box), depth });
+    for (const childId of childrenMap.get(id) ?? []) {
+      visit(childId, depth + 1);
+    }
+  };
+
+  for (const root of roots) {
+    visit(root.id, 0);
+  }
+  // Boxes caught in a reporting loop have no root; list them at the top level
+  for (const box of boxes) {
+    visit(box.id, 0);
+  }
+  return nodes;
+}
+
+export function formatOutline(entries: OutlineEntry[]): string {
+  return entries
+    .map((entry) => `${INDENT.repeat(entry.depth)}${entry.text}`)
+    .join("\n");
+}
+
+/**
+ * Read an indented outline. Tabs or any consistent number of spaces work;
+ * a line indented deeper than its predecessor becomes its child, and blank
+ * lines are ignored.
+ */
+export function parseOutline(text: string): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  // Indent widths of the open ancestors, outermost first
+  const stack: number[] = [];
+
+  for (const raw of text.split("\n")) {
+    const content = raw.trim();
+    if (!content) {
+      continue;
+    }
+    const indent = (raw.match(LEADING_WHITESPACE_REGEX)?.[0] ?? "").replace(
+      TAB_REGEX,
+      INDENT
+    ).length;
+    while (stack.length > 0 && (stack.at(-1) ?? 0) >= indent) {
+      stack.pop();
+    }
+    entries.push({ text: content, depth: stack.length });
+    stack.push(indent);
+  }
+
+  return entries;
+}
+
+// Index pairs of the longest common subsequence of line texts
+function matchUnchangedLines(
+  before: OutlineNode[],
+  after: OutlineEntry[]
+): [number, number][] {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const table = new Array<number>(rows * cols).fill(0);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i * cols + j] =
+        before[i].text === after[j].text
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i].text === after[j].text) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Decide which existing box each edited line belongs to, so ids (and with
+ * them styling) survive edits. Unchanged lines match first, then lines moved
+ * elsewhere with the same text, then lines edited in place.
+ */
+export function matchOutlineIds(
+  before: OutlineNode[],
+  after: OutlineEntry[]
+): (string | null)[] {
+  const ids: (string | null)[] = after.map(() => null);
+  const used = new Set<number>();
+  const anchors = matchUnchangedLines(before, after);
+  for (const [i, j] of anchors) {
+    ids[j] = before[i].id;
+    used.add(i);
+  }
+
+  for (const [j, entry] of after.entries()) {
+    if (ids[j] !== null) {
+      continue;
+    }
+    const i = before.findIndex(
+      (node, index) => !used.has(index) && node.text === entry.text
+    );
+    if (i !== -1) {
+      ids[j] = before[i].id;
+      used.add(i);
+    }
+  }
+
+  // Pair the remaining lines between consecutive anchors as renames
+  const bounds: [number, number][] = [
+    [-1, -1],
+    ...anchors,
+    [before.length, after.length],
+  ];
+  for (let k = 1; k < bounds.length; k++) {
+    const [startI, startJ] = bounds[k - 1];
+    const [endI, endJ] = bounds[k];
+    let i = startI + 1;
+    for (let j = startJ + 1; j < endJ; j++) {
+      while (i < endI && used.has(i)) {
+        i++;
+      }
+      if (ids[j] !== null || i >= endI) {
+        continue;
+      }
+      ids[j] = before[i].id;
+      used.add(i);
+    }
+  }
+
+  return ids;
+}
+
+function applyOutlineText<T extends Box>(box: T, text: string): T {
+  if (getOutlineText(box) === text) {
+    return box;
+  }
+  if (hasPersonCard(box)) {
+    return { ...box, person: { ...EMPTY_PERSON, ...box.person, name: text } };
+  }
+  return { ...box, label: { ...DEFAULT_LABEL, ...box.label, text } };
+}
+
+/**
+ * Rebuild the chart's boxes and parent connectors from an edited outline.
+ * Matched boxes keep their id and styling, new lines become boxes, and boxes
+ * whose line was removed are deleted with their connectors. Shapes outside
+ * the tree are left alone.
+ */
+export function outlineToShapes(
+  shapes: Shape[],
+  entries: OutlineEntry[]
+): Shape[] {
+  const boxMap = new Map(shapes.filter(isBox).map((b) => [b.id, b]));
+  const parentConnectors = getParentConnectors(shapes);
+  const ids = matchOutlineIds(shapesToOutline(shapes), entries);
+
+  // Nearest shallower line above each entry is its parent
+  const parentIndex: number[] = [];
+  const ancestors: number[] = [];
+  for (const [index, entry] of entries.entries()) {
+    ancestors.length = Math.min(ancestors.length, entry.depth);
+    parentIndex.push(ancestors.at(-1) ?? -1);
+    ancestors.push(index);
+  }
+  // Stacked children cannot have children of their own
+  const grandparents = new Set(
+    parentIndex
+      .filter((p) => p !== -1 && parentIndex[p] !== -1)
+      .map((p) => parentIndex[p])
+  );
+
+  const boxes: Box[] = entries.map((entry, index) => {
+    const existing = boxMap.get(ids[index] ?? "");
+    const box = applyOutlineText(
+      existing ?? createRectangle(0, 0, entry.depth),
+      entry.text
+    );
+    return {
+      ...box,
+      level: entry.depth,
+      // Roots are ordered by x in the layout; seed it with the outline order
+      x: parentIndex[index] === -1 ? index : box.x,
+      childLayout: grandparents.has(index) ? "horizontal" : box.childLayout,
+    };
+  });
+
+  const connectors = boxes.flatMap((box, index) => {
+    const parent = boxes[parentIndex[index]];
+    if (!parent) {
+      return [];
+    }
+    const fresh = createOrgConnector(parent.id, box.id, parent.childLayout);
+    const existing = parentConnectors.get(box.id);
+    return [
+      existing
+        ? {
+            ...existing,
+            startBinding: fresh.startBinding,
+            endBinding: fresh.endBinding,
+            // The outline's order replaces any set by reordering
+            siblingOrder: undefined,
+          }
+        : fresh,
+    ];
+  });
+
+  const keptIds = new Set(boxes.map((b) => b.id));
+  const treeConnectorIds = new Set(
+    [...parentConnectors.values()].map((c) => c.id)
+  );
+  const others = shapes.filter((s) => {
+    if (isBox(s) || treeConnectorIds.has(s.id)) {
+      return false;
+    }
+    if (s.type !== "elbow-connector") {
+      return true;
+    }
+    return [s.startBinding, s.endBinding].every(
+      (binding) =>
+        !binding || keptIds.has(binding.shapeId) || !boxMap.has(binding.shapeId)
+    );
+  });
+
+  return [...boxes, ...connectors, ...others];
+}
@@ -0,0 +1,14 @@
+import { toast } from "sonner";
+
+/**
+ * Tell the user that a chart was repaired while loading, naming the first
+ * few fixes. Does nothing when the chart needed no repairs.
+ */
+export function showRepairs(fixes: string[]) {
+  if (fixes.length > 0) {
+    toast.warning(
+      `Repaired ${fixes.length} problem${fixes.length === 1 ? "" : "s"} in this chart`,
+      { description: fixes.slice(0, 3).join(". ") }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LAYOUT_PARAMS } from "./layout/types";
+import { CURRENT_SCHEMA_VERSION, repairShape, validateChart } from "./schema";
+import {
+  createOrgConnector,
+  createRectangle,
+  DEFAULT_LABEL,
+  EMPTY_PERSON,
+  type Shape,
+} from "./shapes/types";
+
+function chartOf(shapes: Shape[]) {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    shapes: Object.fromEntries(shapes.map((s) => [s.id, s])),
+    shapeIds: shapes.map((s) => s.id),
+    layoutParams: DEFAULT_LAYOUT_PARAMS,
+    viewport: { x: 10, y: 20, zoom: 1.5 },
+  };
+}
+
+function orgChart(): Shape[] {
+  const parent = createRectangle(0, 0);
+  const child = createRectangle(0, 150, 1);
+  return [parent, child, createOrgConnector(parent.id, child.id, "vertical")];
+}
+
+describe("validateChart", () => {
+  it("keeps a valid chart as it is", () => {
+    const chart = chartOf(orgChart());
+    const { data, report } = validateChart(chart);
+    expect(data).toEqual(chart);
+    expect(report).toEqual({ fixes: [], quarantined: [] });
+  });
+
+  it("migrates unversioned charts to the current schema", () => {
+    const { schemaVersion, ...chart } = chartOf(orgChart());
+    const { maxBoxWidth, minBoxWidth, ...oldParams } = DEFAULT_LAYOUT_PARAMS;
+    const { data, report } = validateChart({
+      ...chart,
+      layoutParams: { ...oldParams, levelHeight: 120 },
+    });
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.layoutParams).toEqual({
+      ...DEFAULT_LAYOUT_PARAMS,
+      levelHeight: 120,
+    });
+    expect(report.fixes).toEqual([]);
+  });
+
+  it("quarantines unreadable shapes and rebuilds the drawing order", () => {
+    const [box] = orgChart();
+    const broken = { type: "hexagon", x: 1 };
+    const { data, report } = validateChart({
+      ...chartOf([box]),
+      shapes: { [box.id]: box, broken, other: createRectangle(5, 5) },
+      shapeIds: [box.id, box.id, "missing"],
+    });
+    expect(data.shapeIds).toEqual([box.id, "other"]);
+    expect(Object.keys(data.shapes)).toEqual([box.id, "other"]);
+    expect(data.shapes.other.id).toBe("other");
+    expect(report.quarantined).toEqual([broken]);
+    expect(report.fixes).toEqual([
+      "Set aside unreadable shape broken",
+      "Removed 2 missing or duplicate shape ids",
+      "Restored 1 shape missing from the chart",
+    ]);
+  });
+
+  it("drops connector bindings to shapes that no longer exist", () => {
+    const [, child, connector] = orgChart();
+    const { data, report } = validateChart(chartOf([child, connector]));
+    expect(data.shapes[connector.id]).toMatchObject({
+      startBinding: undefined,
+      endBinding: { shapeId: child.id, side: "left" },
+    });
+    expect(report.fixes).toEqual([
+      `Removed dangling startBinding on connector ${connector.id}`,
+    ]);
+  });
+
+  it("resets invalid layout settings and viewports", () => {
+    const { data, report } = validateChart({
+      ...chartOf([]),
+      layoutParams: { ...DEFAULT_LAYOUT_PARAMS, shapeGap: -5 },
+      viewport: { x: 0, y: 0, zoom: 0 },
+    });
+    expect(data.layoutParams).toEqual(DEFAULT_LAYOUT_PARAMS);
+    expect(data.viewport).toEqual({ x: 0, y: 0, zoom: 1 });
+    expect(report.fixes).toEqual([
+      "Reset layout setting shapeGap",
+      "Reset the view position",
+    ]);
+  });
+
+  it("turns anything that isn't a chart into an empty one", () => {
+    const { data } = validateChart("not a chart");
+    expect(data).toMatchObject({ shapes: {}, shapeIds: [] });
+  });
+});
+
+describe("repairShape", () => {
+  it("rejects values that aren't shapes", () => {
+    expect(repairShape("a", null, [])).toBeNull();
+    expect(repairShape("a", { type: "star" }, [])).toBeNull();
+  });
+
+  it("resets invalid fields and takes the id from the key", () => {
+    const fixes: string[] = [];
+    const shape = repairShape(
+      "a",
+      {
+        ...createRectangle(0, 0),
+        id: "b",
+        x: Number.NaN,
+        width: 0,
+        childLayout: "diagonal",
+      },
+      fixes
+    );
+    expect(shape).toMatchObject({
+      id: "a",
+      x: 0,
+      width: 140,
+      childLayout: undefined,
+    });
+    expect(fixes).toEqual([
+      "Reset invalid x on shape a",
+      "Reset invalid childLayout on shape a",
+      "Reset invalid width on shape a",
+    ]);
+  });
+
+  it("keeps the readable parts of labels and person cards", () => {
+    const fixes: string[] = [];
+    const shape = repairShape(
+      "a",
+      {
+        ...createRectangle(0, 0),
+        label: { ...DEFAULT_LABEL, text: "CEO", fontSize: -1 },
+        person: { ...EMPTY_PERSON, name: "Ada", email: 42 },
+      },
+      fixes
+    );
+    expect(shape).toMatchObject({
+      label: { text: "CEO", fontSize: DEFAULT_LABEL.fontSize },
+      person: { name: "Ada", email: "" },
+    });
+    expect(fixes).toEqual([
+      "Reset invalid label on shape a",
+      "Reset invalid person on shape a",
+    ]);
+  });
+
+  it("resets invalid connector fields", () => {
+    const fixes: string[] = [];
+    const shape = repairShape(
+      "c",
+      {
+        ...createOrgConnector("a", "b", "horizontal"),
+        endArrowhead: "diamond",
+        startBinding: { shapeId: "a", side: "middle" },
+        siblingOrder: "first",
+      },
+      fixes
+    );
+    expect(shape).toMatchObject({
+      endArrowhead: "none",
+      startBinding: undefined,
+      endBinding: { shapeId: "b", side: "top" },
+      siblingOrder: undefined,
+    });
+    expect(fixes).toHaveLength(3);
+  });
+});
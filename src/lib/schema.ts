@@ -0,0 +1,343 @@
+import type { LayoutParams } from "./layout/types";
+import { DEFAULT_LAYOUT_PARAMS } from "./layout/types";
+import type { Shape, ShapeType } from "./shapes/types";
+import {
+  DEFAULT_FILL,
+  DEFAULT_LABEL,
+  DEFAULT_STROKE,
+  DEFAULT_STROKE_WIDTH,
+  EMPTY_PERSON,
+} from "./shapes/types";
+import type { ChartData } from "./storage";
+import type { Viewport } from "./store/shapes";
+
+export interface ChartRepairReport {
+  // One human-readable note per repair
+  fixes: string[];
+  // Raw entries that could not be read as shapes, kept aside instead of lost
+  quarantined: unknown[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isOneOf =
+  (...allowed: unknown[]) =>
+  (value: unknown) =>
+    allowed.includes(value);
+
+const isOptional =
+  (isValid: (value: unknown) => boolean) =>
+  (value: unknown): boolean =>
+    value === undefined || isValid(value);
+
+type FieldChecks = Record<string, (value: unknown) => boolean>;
+
+const LABEL_CHECKS: FieldChecks = {
+  text: isString,
+  fontSize: (value) => isFiniteNumber(value) && value > 0,
+  fontWeight: isOneOf("normal", "bold"),
+  color: isString,
+  align: isOneOf("left", "center", "right"),
+};
+
+const PERSON_CHECKS: FieldChecks = {
+  name: isString,
+  title: isString,
+  department: isString,
+  email: isString,
+  avatar: isOptional(isString),
+};
+
+const isBinding = (value: unknown) =>
+  isRecord(value) &&
+  isString(value.shapeId) &&
+  isOneOf("top", "right", "bottom", "left", "center")(value.side);
+
+// MIGRATIONS[n] upgrades a chart saved at version n to version n + 1.
+// Append new steps; never edit a released one.
+const MIGRATIONS: ((chart: RawRecord) => RawRecord)[] = [
+  // Unversioned charts predate the box width limits in the layout settings
+  (chart) => ({
+    ...chart,
+    layoutParams: {
+      ...DEFAULT_LAYOUT_PARAMS,
+      ...(isRecord(chart.layoutParams) ? chart.layoutParams : {}),
+    },
+  }),
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length;
+
+const SHAPE_TYPES: ShapeType[] = [
+  "rectangle",
+  "ellipse",
+  "triangle",
+  "elbow-connector",
+];
+
+// Fallback sizes match the create* factories
+const BOX_SIZES: Record<
+  Exclude<ShapeType, "elbow-connector">,
+  { width: number; height: number }
+> = {
+  rectangle: { width: 140, height: 50 },
+  ellipse: { width: 100, height: 80 },
+  triangle: { width: 100, height: 90 },
+};
+
+const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+/**
+ * Bring a stored chart up to the current schema and repair anything that
+ * would break the editor: unreadable shapes are quarantined, invalid
+ * numbers reset, dangling connector bindings dropped and the drawing
+ * order rebuilt from the shapes that actually exist.
+ */
+export function validateChart(raw: unknown): {
+  data: ChartData;
+  report: ChartRepairReport;
+} {
+  const report: ChartRepairReport = { fixes: [], quarantined: [] };
+
+  let chart = isRecord(raw) ? raw : {};
+  const version = isFiniteNumber(chart.schemaVersion) ? chart.schemaVersion : 0;
+  for (const migrate of MIGRATIONS.slice(version)) {
+    chart = migrate(chart);
+  }
+
+  const shapes: Record<string, Shape> = {};
+  for (const [id, value] of Object.entries(
+    isRecord(chart.shapes) ? chart.shapes : {}
+  )) {
+    const shape = repairShape(id, value, report.fixes);
+    if (shape) {
+      shapes[id] = shape;
+    } else {
+      report.quarantined.push(value);
+      report.fixes.push(`Set aside unreadable shape ${id}`);
+    }
+  }
+  repairBindings(shapes, report.fixes);
+
+  return {
+    data: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      shapes,
+      shapeIds: repairShapeIds(chart.shapeIds, shapes, report.fixes),
+      layoutParams: repairLayoutParams(chart.layoutParams, report.fixes),
+      viewport: repairViewport(chart.viewport, report.fixes),
+    },
+    report,
+  };
+}
+
+/**
+ * A readable shape from a stored or pasted value, with invalid fields reset,
+ * or null when it isn't a shape at all.
+ */
+export function repairShape(
+  id: string,
+  value: unknown,
+  fixes: string[]
+): Shape | null {
+  if (!(isRecord(value) && SHAPE_TYPES.includes(value.type as ShapeType))) {
+    return null;
+  }
+
+  // The record key is the source of truth for the id
+  const shape: RawRecord = { ...value, id };
+  const check = (field: string, isValid: boolean, fallback: unknown) => {
+    if (!isValid) {
+      shape[field] = fallback;
+      fixes.push(`Reset invalid ${field} on shape ${id}`);
+    }
+  };
+
+  check("x", isFiniteNumber(shape.x), 0);
+  check("y", isFiniteNumber(shape.y), 0);
+  check("rotation", isFiniteNumber(shape.rotation), 0);
+  check(
+    "strokeWidth",
+    isFiniteNumber(shape.strokeWidth) && shape.strokeWidth >= 0,
+    DEFAULT_STROKE_WIDTH
+  );
+  check("fill", isString(shape.fill), DEFAULT_FILL);
+  check("stroke", isString(shape.stroke), DEFAULT_STROKE);
+  check("stacked", isOptional(isOneOf(true, false))(shape.stacked), undefined);
+  check(
+    "childLayout",
+    isOptional(isOneOf("horizontal", "vertical"))(shape.childLayout),
+    undefined
+  );
+
+  if (shape.type === "elbow-connector") {
+    repairConnector(shape, check);
+  } else {
+    repairBox(shape, check);
+  }
+  return shape as unknown as Shape;
+}
+
+type FieldCheck = (field: string, isValid: boolean, fallback: unknown) => void;
+
+function repairConnector(shape: RawRecord, check: FieldCheck) {
+  const isPoint = (point: unknown) =>
+    isRecord(point) && isFiniteNumber(point.x) && isFiniteNumber(point.y);
+  // Bound connectors get their points recomputed on the next layout
+  check("startPoint", isPoint(shape.startPoint), { x: 0, y: 0 });
+  check("endPoint", isPoint(shape.endPoint), { x: 0, y: 0 });
+  check(
+    "startDirection",
+    isOneOf("horizontal", "vertical")(shape.startDirection),
+    "vertical"
+  );
+  for (const field of ["startArrowhead", "endArrowhead"]) {
+    check(field, isOneOf("none", "arrow", "bar")(shape[field]), "none");
+  }
+  for (const field of ["startBinding", "endBinding"]) {
+    check(field, isOptional(isBinding)(shape[field]), undefined);
+  }
+  check(
+    "siblingOrder",
+    isOptional(isFiniteNumber)(shape.siblingOrder),
+    undefined
+  );
+}
+
+function repairBox(shape: RawRecord, check: FieldCheck) {
+  const isAtLeast = (field: string, min: number) => {
+    const value = shape[field];
+    return isFiniteNumber(value) && value >= min;
+  };
+  const size = BOX_SIZES[shape.type as keyof typeof BOX_SIZES];
+  check("width", isAtLeast("width", 1), size.width);
+  check("height", isAtLeast("height", 1), size.height);
+  if (shape.type === "triangle") {
+    return;
+  }
+  check("level", isAtLeast("level", 0), 0);
+  check(
+    "autoSize",
+    isOptional(isOneOf(true, false))(shape.autoSize),
+    undefined
+  );
+  if (shape.type === "rectangle") {
+    check("cornerRadius", isAtLeast("cornerRadius", 0), 0);
+  }
+  // Keep what's readable of a label or card, defaulting the rest
+  const parts = [
+    ["label", LABEL_CHECKS, DEFAULT_LABEL],
+    ["person", PERSON_CHECKS, EMPTY_PERSON],
+  ] as const;
+  for (const [field, checks, defaults] of parts) {
+    const value = shape[field];
+    if (value === undefined) {
+      continue;
+    }
+    const repaired = isRecord(value)
+      ? repairFields(value, checks, defaults)
+      : null;
+    check(field, repaired === value, repaired ?? undefined);
+  }
+}
+
+// The same record when every field passes, otherwise a copy with the failing
+// ones taken from the defaults
+function repairFields(
+  value: RawRecord,
+  checks: FieldChecks,
+  defaults: object
+): RawRecord {
+  const invalid = Object.keys(checks).filter((key) => !checks[key](value[key]));
+  if (invalid.length === 0) {
+    return value;
+  }
+  const repaired = { ...value };
+  for (const key of invalid) {
+    repaired[key] = (defaults as RawRecord)[key];
+  }
+  return repaired;
+}
+
+// Connectors may only bind to boxes that still exist
+function repairBindings(shapes: Record<string, Shape>, fixes: string[]) {
+  for (const shape of Object.values(shapes)) {
+    if (shape.type !== "elbow-connector") {
+      continue;
+    }
+    for (const key of ["startBinding", "endBinding"] as const) {
+      const binding = shape[key];
+      const target = isRecord(binding) ? shapes[binding.shapeId] : undefined;
+      if (binding && (!target || target.type === "elbow-connector")) {
+        shapes[shape.id] = { ...shapes[shape.id], [key]: undefined };
+        fixes.push(`Removed dangling ${key} on connector ${shape.id}`);
+      }
+    }
+  }
+}
+
+function repairShapeIds(
+  raw: unknown,
+  shapes: Record<string, Shape>,
+  fixes: string[]
+): string[] {
+  const rawIds: unknown[] = Array.isArray(raw) ? raw : [];
+  const shapeIds = [
+    ...new Set(
+      rawIds.filter(
+        (id): id is string => typeof id === "string" && id in shapes
+      )
+    ),
+  ];
+  if (shapeIds.length !== rawIds.length) {
+    fixes.push(
+      `Removed ${rawIds.length - shapeIds.length} missing or duplicate shape ids`
+    );
+  }
+
+  const listed = new Set(shapeIds);
+  const unlisted = Object.keys(shapes).filter((id) => !listed.has(id));
+  if (unlisted.length > 0) {
+    shapeIds.push(...unlisted);
+    fixes.push(
+      `Restored ${unlisted.length} shape${unlisted.length === 1 ? "" : "s"} missing from the chart`
+    );
+  }
+  return shapeIds;
+}
+
+function repairLayoutParams(raw: unknown, fixes: string[]): LayoutParams {
+  const params = { ...DEFAULT_LAYOUT_PARAMS };
+  const stored = isRecord(raw) ? raw : {};
+  for (const key of Object.keys(params) as (keyof LayoutParams)[]) {
+    const value = stored[key];
+    if (isFiniteNumber(value) && value >= 0) {
+      params[key] = value;
+    } else {
+      fixes.push(`Reset layout setting ${key}`);
+    }
+  }
+  return params;
+}
+
+function repairViewport(raw: unknown, fixes: string[]): Viewport {
+  if (
+    isRecord(raw) &&
+    isFiniteNumber(raw.x) &&
+    isFiniteNumber(raw.y) &&
+    isFiniteNumber(raw.zoom) &&
+    raw.zoom > 0
+  ) {
+    return { x: raw.x, y: raw.y, zoom: raw.zoom };
+  }
+  fixes.push("Reset the view position");
+  return DEFAULT_VIEWPORT;
+}
@@ -0,0 +1,97 @@
+import type { LayoutParams } from "../layout/types";
+import {
+  AVATAR_MAX_SIZE,
+  getCardEntries,
+  getCardTextWidth,
+  hasPersonCard,
+} from "./card";
+import { LABEL_LINE_HEIGHT, LABEL_PADDING, layoutLabel } from "./label";
+import { measureTextWidth, wrapText } from "./measure";
+import type { EllipseShape, RectangleShape } from "./types";
+import { DEFAULT_LABEL } from "./types";
+
+export const MIN_BOX_HEIGHT = 50;
+
+type Box = RectangleShape | EllipseShape;
+
+// Ellipses only fit text inside their inscribed rectangle
+function toOuterSize(shape: Box, inner: number): number {
+  const padded = inner + LABEL_PADDING * 2;
+  return shape.type === "ellipse" ? padded * Math.SQRT2 : padded;
+}
+
+function getNaturalContentWidth(shape: Box): number {
+  if (hasPersonCard(shape)) {
+    const textWidth = Math.max(
+      0,
+      ...getCardEntries(shape).map((entry) =>
+        measureTextWidth(entry.text, entry.fontSize, entry.fontWeight)
+      )
+    );
+    return shape.person?.avatar
+      ? AVATAR_MAX_SIZE + LABEL_PADDING + textWidth
+      : textWidth;
+  }
+
+  const label = { ...DEFAULT_LABEL, ...shape.label };
+  return Math.max(
+    0,
+    ...label.text
+      .split("\n")
+      .map((line) => measureTextWidth(line, label.fontSize, label.fontWeight))
+  );
+}
+
+function getContentHeight(shape: Box): number {
+  if (hasPersonCard(shape)) {
+    const textWidth = getCardTextWidth(shape);
+    const textHeight = getCardEntries(shape).reduce(
+      (sum, entry) =>
+        sum +
+        wrapText(entry.text, textWidth, entry.fontSize, entry.fontWeight)
+          .length *
+          entry.fontSize *
+          LABEL_LINE_HEIGHT,
+      0
+    );
+    return shape.person?.avatar
+      ? Math.max(textHeight, AVATAR_MAX_SIZE)
+      : textHeight;
+  }
+
+  const layout = layoutLabel(shape);
+  return layout ? layout.lines.length * layout.fontSize * LABEL_LINE_HEIGHT : 0;
+}
+
+/**
+ * Resize a box so its label or person card fits. Width grows with the
+ * longest line within the chart's min/max constraints; text beyond the
+ * max width wraps and the box grows taller instead.
+ * Boxes sized by hand (autoSize === false) are left untouched.
+ */
+export function fitBoxToContent<T extends Box>(
+  shape: T,
+  params: Pick<LayoutParams, "minBoxWidth" | "maxBoxWidth">
+): T {
+  if (shape.autoSize === false) {
+    return shape;
+  }
+
+  const naturalWidth = toOuterSize(shape, getNaturalContentWidth(shape));
+  const width = Math.ceil(
+    Math.min(
+      Math.max(naturalWidth, params.minBoxWidth),
+      Math.max(params.minBoxWidth, params.maxBoxWidth)
+    )
+  );
+
+  const sized = { ...shape, width };
+  const height = Math.ceil(
+    Math.max(MIN_BOX_HEIGHT, toOuterSize(sized, getContentHeight(sized)))
+  );
+
+  if (width === shape.width && height === shape.height) {
+    return shape;
+  }
+  return { ...sized, height };
+}
@@ -0,0 +1,54 @@
+const AVATAR_PIXELS = 128;
+const AVATAR_QUALITY = 0.85;
+
+/**
+ * Read an image file into a small square JPEG data URI.
+ * Center-cropped and downscaled so charts stay light and exports self-contained.
+ */
+export function readAvatarFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas context not available"));
+        return;
+      }
+
+      canvas.width = AVATAR_PIXELS;
+      canvas.height = AVATAR_PIXELS;
+
+      const side = Math.min(img.naturalWidth, img.naturalHeight);
+      const sx = (img.naturalWidth - side) / 2;
+      const sy = (img.naturalHeight - side) / 2;
+
+      // JPEG has no alpha, so flatten transparent images onto white
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, AVATAR_PIXELS, AVATAR_PIXELS);
+      ctx.drawImage(
+        img,
+        sx,
+        sy,
+        side,
+        side,
+        0,
+        0,
+        AVATAR_PIXELS,
+        AVATAR_PIXELS
+      );
+
+      resolve(canvas.toDataURL("image/jpeg", AVATAR_QUALITY));
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to load avatar image"));
+    };
+
+    img.src = url;
+  });
+}
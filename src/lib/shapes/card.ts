@@ -0,0 +1,152 @@
+import { getLabelInset, LABEL_LINE_HEIGHT, LABEL_PADDING } from "./label";
+import { wrapText } from "./measure";
+import type { EllipseShape, RectangleShape } from "./types";
+import { DEFAULT_LABEL } from "./types";
+
+export const AVATAR_MAX_SIZE = 40;
+const MUTED_OPACITY = 0.65;
+
+export interface CardLine {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  fontWeight: "normal" | "bold";
+  opacity: number;
+}
+
+export type CardEntry = Omit<CardLine, "x" | "y">;
+
+export interface CardLayout {
+  avatar: {
+    href: string;
+    x: number;
+    y: number;
+    size: number;
+    clipId: string;
+  } | null;
+  lines: CardLine[];
+  anchor: "start" | "middle";
+  color: string;
+}
+
+export function hasPersonCard(shape: RectangleShape | EllipseShape): boolean {
+  const person = shape.person;
+  if (!person) {
+    return false;
+  }
+  return Boolean(
+    person.name ||
+      person.title ||
+      person.department ||
+      person.email ||
+      person.avatar
+  );
+}
+
+/**
+ * Non-empty card fields in display order, sized relative to the label font.
+ */
+export function getCardEntries(
+  shape: RectangleShape | EllipseShape
+): CardEntry[] {
+  const person = shape.person;
+  if (!person) {
+    return [];
+  }
+
+  const base = { ...DEFAULT_LABEL, ...shape.label }.fontSize;
+  const entries: CardEntry[] = [
+    { text: person.name, fontSize: base, fontWeight: "bold", opacity: 1 },
+    {
+      text: person.title,
+      fontSize: base - 1,
+      fontWeight: "normal",
+      opacity: 1,
+    },
+    {
+      text: person.department,
+      fontSize: base - 2,
+      fontWeight: "normal",
+      opacity: MUTED_OPACITY,
+    },
+    {
+      text: person.email,
+      fontSize: base - 2,
+      fontWeight: "normal",
+      opacity: MUTED_OPACITY,
+    },
+  ];
+  return entries.filter((entry) => entry.text.trim() !== "");
+}
+
+/**
+ * Width left for card text once insets and the avatar are taken out.
+ */
+export function getCardTextWidth(shape: RectangleShape | EllipseShape): number {
+  const inset = getLabelInset(shape);
+  const avatarSpace = shape.person?.avatar
+    ? AVATAR_MAX_SIZE + LABEL_PADDING
+    : 0;
+  return shape.width - inset * 2 - avatarSpace;
+}
+
+/**
+ * Compute the card layout for a box with person details: avatar on the left,
+ * then name, title, department and email stacked and vertically centered.
+ * Shared by the canvas and the SVG renderer.
+ */
+export function layoutCard(
+  shape: RectangleShape | EllipseShape
+): CardLayout | null {
+  const person = shape.person;
+  if (!(person && hasPersonCard(shape))) {
+    return null;
+  }
+
+  const label = { ...DEFAULT_LABEL, ...shape.label };
+  const inset = getLabelInset(shape);
+  const textWidth = getCardTextWidth(shape);
+
+  let avatar: CardLayout["avatar"] = null;
+  let textX = shape.x + shape.width / 2;
+  let anchor: CardLayout["anchor"] = "middle";
+
+  if (person.avatar) {
+    const size = Math.min(AVATAR_MAX_SIZE, shape.height - LABEL_PADDING * 2);
+    avatar = {
+      href: person.avatar,
+      x: shape.x + inset,
+      y: shape.y + (shape.height - size) / 2,
+      size,
+      clipId: `avatar-clip-${shape.id}`,
+    };
+    textX = avatar.x + AVATAR_MAX_SIZE + LABEL_PADDING;
+    anchor = "start";
+  }
+
+  const wrapped = getCardEntries(shape).flatMap((entry) =>
+    wrapText(entry.text, textWidth, entry.fontSize, entry.fontWeight).map(
+      (text) => ({ ...entry, text })
+    )
+  );
+
+  const blockHeight = wrapped.reduce(
+    (sum, entry) => sum + entry.fontSize * LABEL_LINE_HEIGHT,
+    0
+  );
+  let cursorY = shape.y + (shape.height - blockHeight) / 2;
+
+  const lines = wrapped.map((entry) => {
+    const lineHeight = entry.fontSize * LABEL_LINE_HEIGHT;
+    const line = {
+      ...entry,
+      x: textX,
+      y: cursorY + lineHeight / 2 + entry.fontSize * 0.35,
+    };
+    cursorY += lineHeight;
+    return line;
+  });
+
+  return { avatar, lines, anchor, color: label.color };
+}
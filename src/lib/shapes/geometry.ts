@@ -0,0 +1,263 @@
+import type { ElbowConnectorShape, Point } from "./types";
+
+// Outline geometry shared by the SVG and PDF renderers. Curves are cubic
+// Béziers so every output format can draw them without arcs.
+export type PathSegment =
+  | { type: "move" | "line"; to: Point }
+  | { type: "curve"; c1: Point; c2: Point; to: Point }
+  | { type: "close" };
+
+// Offset of the back copy drawn for stacked boxes
+export const STACK_OFFSET: Point = { x: 3, y: -3 };
+
+// Control point distance for a quarter circle approximated by a cubic
+const KAPPA = 0.552_284_749_8;
+
+const point = (x: number, y: number): Point => ({ x, y });
+
+// Quadratic corner (start, control, end) expressed as the equivalent cubic
+function quadraticCorner(from: Point, control: Point, to: Point): PathSegment {
+  return {
+    type: "curve",
+    c1: point(
+      from.x + ((control.x - from.x) * 2) / 3,
+      from.y + ((control.y - from.y) * 2) / 3
+    ),
+    c2: point(
+      to.x + ((control.x - to.x) * 2) / 3,
+      to.y + ((control.y - to.y) * 2) / 3
+    ),
+    to,
+  };
+}
+
+export function getRectPath(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rx: number
+): PathSegment[] {
+  // Clamp rx to prevent artifacts if shape is smaller than radius
+  const maxRx = Math.min(width, height) / 2;
+  const r = Math.min(Math.max(rx, 0), maxRx);
+  const right = x + width;
+  const bottom = y + height;
+
+  if (r === 0) {
+    return [
+      { type: "move", to: point(x, y) },
+      { type: "line", to: point(right, y) },
+      { type: "line", to: point(right, bottom) },
+      { type: "line", to: point(x, bottom) },
+      { type: "close" },
+    ];
+  }
+
+  return [
+    { type: "move", to: point(x + r, y) },
+    { type: "line", to: point(right - r, y) },
+    quadraticCorner(point(right - r, y), point(right, y), point(right, y + r)),
+    { type: "line", to: point(right, bottom - r) },
+    quadraticCorner(
+      point(right, bottom - r),
+      point(right, bottom),
+      point(right - r, bottom)
+    ),
+    { type: "line", to: point(x + r, bottom) },
+    quadraticCorner(
+      point(x + r, bottom),
+      point(x, bottom),
+      point(x, bottom - r)
+    ),
+    { type: "line", to: point(x, y + r) },
+    quadraticCorner(point(x, y + r), point(x, y), point(x + r, y)),
+    { type: "close" },
+  ];
+}
+
+export function getEllipsePath(
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): PathSegment[] {
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  const ox = (width / 2) * KAPPA;
+  const oy = (height / 2) * KAPPA;
+  const right = x + width;
+  const bottom = y + height;
+
+  return [
+    { type: "move", to: point(x, cy) },
+    {
+      type: "curve",
+      c1: point(x, cy - oy),
+      c2: point(cx - ox, y),
+      to: point(cx, y),
+    },
+    {
+      type: "curve",
+      c1: point(cx + ox, y),
+      c2: point(right, cy - oy),
+      to: point(right, cy),
+    },
+    {
+      type: "curve",
+      c1: point(right, cy + oy),
+      c2: point(cx + ox, bottom),
+      to: point(cx, bottom),
+    },
+    {
+      type: "curve",
+      c1: point(cx - ox, bottom),
+      c2: point(x, cy + oy),
+      to: point(x, cy),
+    },
+    { type: "close" },
+  ];
+}
+
+export function getTrianglePoints(
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): Point[] {
+  // Isoceles triangle pointing up
+  return [
+    point(x + width / 2, y),
+    point(x, y + height),
+    point(x + width, y + height),
+  ];
+}
+
+/**
+ * Corner points of an elbow connector, from start to end.
+ */
+export function getElbowPoints(shape: ElbowConnectorShape): Point[] {
+  const { startPoint, endPoint, startDirection } = shape;
+
+  if (startDirection === "vertical") {
+    // Check if we are connecting to the side of a child (Vertical Stack layout)
+    if (
+      shape.endBinding?.side === "left" ||
+      shape.endBinding?.side === "right"
+    ) {
+      // "Jogged Spine" style for vertical lists (Image 2 style)
+      // Parent Center -> Down -> Left/Right to Spine -> Down -> Right/Left to Child
+      const spineOffset = 20; // Distance from child left edge to spine
+      const verticalDrop = 20; // How far down from parent before jogging
+
+      const spineX =
+        shape.endBinding.side === "left"
+          ? endPoint.x - spineOffset
+          : endPoint.x + spineOffset;
+
+      const jogY = startPoint.y + verticalDrop;
+
+      return [
+        startPoint,
+        point(startPoint.x, jogY),
+        point(spineX, jogY),
+        point(spineX, endPoint.y),
+        endPoint,
+      ];
+    }
+
+    // Standard Vertical -> Top/Bottom connection (Org Chart Tree layout)
+    // Needs a mid-point for the horizontal segment
+    const midY = (startPoint.y + endPoint.y) / 2;
+    return [
+      startPoint,
+      point(startPoint.x, midY),
+      point(endPoint.x, midY),
+      endPoint,
+    ];
+  }
+  // Horizontal start
+  const midX = (startPoint.x + endPoint.x) / 2;
+  return [
+    startPoint,
+    point(midX, startPoint.y),
+    point(midX, endPoint.y),
+    endPoint,
+  ];
+}
+
+export function polylinePath(points: Point[]): PathSegment[] {
+  return points.map((to, index) => ({
+    type: index === 0 ? "move" : "line",
+    to,
+  }));
+}
+
+/**
+ * Arrowhead outline in local coordinates (tip at the origin, pointing
+ * along +x), plus where to place and how far to rotate it.
+ */
+export function getArrowhead(
+  shape: ElbowConnectorShape,
+  position: "start" | "end"
+): { path: PathSegment[]; x: number; y: number; rotation: number } | null {
+  const type = position === "start" ? shape.startArrowhead : shape.endArrowhead;
+  if (type === "none") {
+    return null;
+  }
+
+  const { startPoint, endPoint, startDirection } = shape;
+  const anchor = position === "start" ? startPoint : endPoint;
+  const rotation = getArrowRotation(
+    startPoint,
+    endPoint,
+    startDirection,
+    position
+  );
+
+  const path =
+    type === "arrow"
+      ? polylinePath([point(-10, -5), point(0, 0), point(-10, 5)])
+      : polylinePath([point(0, -6), point(0, 6)]);
+
+  return { path, x: anchor.x, y: anchor.y, rotation };
+}
+
+function getArrowRotation(
+  startPoint: Point,
+  endPoint: Point,
+  startDirection: "horizontal" | "vertical",
+  position: "start" | "end"
+): number {
+  if (position === "start") {
+    if (startDirection === "horizontal") {
+      const midX = (startPoint.x + endPoint.x) / 2;
+      return midX > startPoint.x ? 180 : 0;
+    }
+    const midY = (startPoint.y + endPoint.y) / 2;
+    return midY > startPoint.y ? 270 : 90;
+  }
+  if (startDirection === "horizontal") {
+    const midX = (startPoint.x + endPoint.x) / 2;
+    return endPoint.x > midX ? 0 : 180;
+  }
+  const midY = (startPoint.y + endPoint.y) / 2;
+  return endPoint.y > midY ? 90 : 270;
+}
+
+export function toSVGPathData(path: PathSegment[]): string {
+  return path
+    .map((segment) => {
+      switch (segment.type) {
+        case "move":
+          return `M ${segment.to.x} ${segment.to.y}`;
+        case "line":
+          return `L ${segment.to.x} ${segment.to.y}`;
+        case "curve":
+          return `C ${segment.c1.x} ${segment.c1.y} ${segment.c2.x} ${segment.c2.y} ${segment.to.x} ${segment.to.y}`;
+        default:
+          return "Z";
+      }
+    })
+    .join(" ");
+}
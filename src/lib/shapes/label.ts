@@ -0,0 +1,79 @@
+import { wrapText } from "./measure";
+import type { EllipseShape, RectangleShape } from "./types";
+import { DEFAULT_LABEL } from "./types";
+
+export const LABEL_PADDING = 8;
+export const LABEL_LINE_HEIGHT = 1.25;
+
+export interface LabelLine {
+  text: string;
+  x: number;
+  y: number;
+}
+
+export interface LabelLayout {
+  lines: LabelLine[];
+  anchor: "start" | "middle" | "end";
+  fontSize: number;
+  fontWeight: "normal" | "bold";
+  color: string;
+}
+
+/**
+ * Horizontal inset for text inside a box. Ellipses lose their corners,
+ * so text is kept inside the inscribed rectangle.
+ */
+export function getLabelInset(shape: RectangleShape | EllipseShape): number {
+  if (shape.type === "ellipse") {
+    return LABEL_PADDING + (shape.width * (1 - Math.SQRT1_2)) / 2;
+  }
+  return LABEL_PADDING;
+}
+
+/**
+ * Compute line positions for a box label. Shared by the canvas and the
+ * SVG renderer so that exports match what is shown on screen.
+ */
+export function layoutLabel(
+  shape: RectangleShape | EllipseShape
+): LabelLayout | null {
+  const label = { ...DEFAULT_LABEL, ...shape.label };
+  if (label.text.trim() === "") {
+    return null;
+  }
+
+  const inset = getLabelInset(shape);
+  const texts = wrapText(
+    label.text,
+    shape.width - inset * 2,
+    label.fontSize,
+    label.fontWeight
+  );
+  const lineHeight = label.fontSize * LABEL_LINE_HEIGHT;
+
+  let x = shape.x + shape.width / 2;
+  let anchor: LabelLayout["anchor"] = "middle";
+  if (label.align === "left") {
+    x = shape.x + inset;
+    anchor = "start";
+  } else if (label.align === "right") {
+    x = shape.x + shape.width - inset;
+    anchor = "end";
+  }
+
+  // Center the block vertically; baseline sits ~0.35em below the line center
+  const top = shape.y + (shape.height - texts.length * lineHeight) / 2;
+  const lines = texts.map((text, index) => ({
+    text,
+    x,
+    y: top + index * lineHeight + lineHeight / 2 + label.fontSize * 0.35,
+  }));
+
+  return {
+    lines,
+    anchor,
+    fontSize: label.fontSize,
+    fontWeight: label.fontWeight,
+    color: label.color,
+  };
+}
@@ -0,0 +1,80 @@
+export const LABEL_FONT_FAMILY =
+  "'Inter Variable', Inter, Helvetica, Arial, sans-serif";
+
+// Rough average glyph width used when no canvas is available (SSR, tests)
+const FALLBACK_CHAR_WIDTH = 0.55;
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+function getMeasureContext(): CanvasRenderingContext2D | null {
+  if (measureContext === undefined) {
+    measureContext =
+      typeof document === "undefined"
+        ? null
+        : document.createElement("canvas").getContext("2d");
+  }
+  return measureContext;
+}
+
+export function measureTextWidth(
+  text: string,
+  fontSize: number,
+  fontWeight: "normal" | "bold"
+): number {
+  const ctx = getMeasureContext();
+  if (!ctx) {
+    return text.length * fontSize * FALLBACK_CHAR_WIDTH;
+  }
+  ctx.font = `${fontWeight} ${fontSize}px ${LABEL_FONT_FAMILY}`;
+  return ctx.measureText(text).width;
+}
+
+/**
+ * Greedy word wrap. Explicit line breaks are kept, and words wider than
+ * the available width are broken between characters.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  fontWeight: "normal" | "bold"
+): string[] {
+  const fits = (value: string) =>
+    measureTextWidth(value, fontSize, fontWeight) <= maxWidth;
+  const result: string[] = [];
+
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        result.push(line);
+      }
+      const pieces = breakWord(word, fits);
+      line = pieces.pop() ?? "";
+      result.push(...pieces);
+    }
+    result.push(line);
+  }
+
+  return result;
+}
+
+function breakWord(word: string, fits: (value: string) => boolean): string[] {
+  const pieces: string[] = [];
+  let rest = word;
+  while (rest.length > 1 && !fits(rest)) {
+    let cut = rest.length - 1;
+    while (cut > 1 && !fits(rest.slice(0, cut))) {
+      cut--;
+    }
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  pieces.push(rest);
+  return pieces;
+}
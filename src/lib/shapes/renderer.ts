@@ -1,4 +1,22 @@
-import type { ElbowConnectorShape, Shape } from "./types";
+import { layoutCard } from "./card";
+import {
+  getArrowhead,
+  getElbowPoints,
+  getEllipsePath,
+  getRectPath,
+  getTrianglePoints,
+  polylinePath,
+  STACK_OFFSET,
+  toSVGPathData,
+} from "./geometry";
+import { layoutLabel } from "./label";
+import { LABEL_FONT_FAMILY } from "./measure";
+import type {
+  ElbowConnectorShape,
+  EllipseShape,
+  RectangleShape,
+  Shape,
+} from "./types";
 
 /**
  * Render a single shape to SVG element string
@@ -11,12 +29,14 @@ export function shapeToSVG(shape: Shape): string {
 
   switch (shape.type) {
     case "rectangle": {
-      const rectPath = getRectPath(
-        shape.x,
-        shape.y,
-        shape.width,
-        shape.height,
-        shape.cornerRadius || 0
+      const rectPath = toSVGPathData(
+        getRectPath(
+          shape.x,
+          shape.y,
+          shape.width,
+          shape.height,
+          shape.cornerRadius || 0
+        )
       );
       const rectSvg = `<path 
         d="${rectPath}" 
@@ -25,29 +45,28 @@ export function shapeToSVG(shape: Shape): string {
         stroke-width="${shape.strokeWidth}"${transform} />`;
 
       if (shape.stacked) {
-        const backPath = getRectPath(
-          shape.x + 3,
-          shape.y - 3,
-          shape.width,
-          shape.height,
-          shape.cornerRadius || 0
+        const backPath = toSVGPathData(
+          getRectPath(
+            shape.x + STACK_OFFSET.x,
+            shape.y + STACK_OFFSET.y,
+            shape.width,
+            shape.height,
+            shape.cornerRadius || 0
+          )
         );
         return `<path 
           d="${backPath}" 
           fill="${shape.fill}" 
           stroke="${shape.stroke}" 
           stroke-width="${shape.strokeWidth}"${transform} />
-          ${rectSvg}`;
+          ${rectSvg}${contentToSVG(shape, transform)}`;
       }
-      return rectSvg;
+      return rectSvg + contentToSVG(shape, transform);
     }
 
     case "ellipse": {
-      const ellipsePath = getEllipsePath(
-        shape.x,
-        shape.y,
-        shape.width,
-        shape.height
+      const ellipsePath = toSVGPathData(
+        getEllipsePath(shape.x, shape.y, shape.width, shape.height)
       );
       const ellipseSvg = `<path 
         d="${ellipsePath}" 
@@ -56,20 +75,22 @@ export function shapeToSVG(shape: Shape): string {
         stroke-width="${shape.strokeWidth}"${transform} />`;
 
       if (shape.stacked) {
-        const backPath = getEllipsePath(
-          shape.x + 3,
-          shape.y - 3,
-          shape.width,
-          shape.height
+        const backPath = toSVGPathData(
+          getEllipsePath(
+            shape.x + STACK_OFFSET.x,
+            shape.y + STACK_OFFSET.y,
+            shape.width,
+            shape.height
+          )
         );
         return `<path 
           d="${backPath}" 
           fill="${shape.fill}" 
           stroke="${shape.stroke}" 
           stroke-width="${shape.strokeWidth}"${transform} />
-          ${ellipseSvg}`;
+          ${ellipseSvg}${contentToSVG(shape, transform)}`;
       }
-      return ellipseSvg;
+      return ellipseSvg + contentToSVG(shape, transform);
     }
 
     case "triangle": {
@@ -78,7 +99,9 @@ export function shapeToSVG(shape: Shape): string {
         shape.y,
         shape.width,
         shape.height
-      );
+      )
+        .map((p) => `${p.x},${p.y}`)
+        .join(" ");
       return `<polygon 
         points="${points}" 
         fill="${shape.fill}" 
@@ -87,7 +110,7 @@ export function shapeToSVG(shape: Shape): string {
     }
 
     case "elbow-connector": {
-      const path = getElbowPath(shape);
+      const path = toSVGPathData(polylinePath(getElbowPoints(shape)));
       return `<path 
         d="${path}" 
         fill="none" 
@@ -104,69 +127,100 @@ export function shapeToSVG(shape: Shape): string {
   }
 }
 
-function getCenterX(shape: Shape): number {
-  if (shape.type === "elbow-connector") {
-    return (shape.startPoint.x + shape.endPoint.x) / 2;
-  }
-  return shape.x + ("width" in shape ? shape.width / 2 : 0);
+// A person card takes the place of the free-text label
+function contentToSVG(
+  shape: RectangleShape | EllipseShape,
+  transform: string
+): string {
+  return cardToSVG(shape, transform) ?? labelToSVG(shape, transform);
 }
 
-function getCenterY(shape: Shape): number {
-  if (shape.type === "elbow-connector") {
-    return (shape.startPoint.y + shape.endPoint.y) / 2;
+function cardToSVG(
+  shape: RectangleShape | EllipseShape,
+  transform: string
+): string | null {
+  const layout = layoutCard(shape);
+  if (!layout) {
+    return null;
   }
-  return shape.y + ("height" in shape ? shape.height / 2 : 0);
+
+  const { avatar } = layout;
+  const avatarSvg = avatar
+    ? `
+        <clipPath id="${avatar.clipId}">
+          <circle cx="${avatar.x + avatar.size / 2}" cy="${avatar.y + avatar.size / 2}" r="${avatar.size / 2}" />
+        </clipPath>
+        <image 
+        href="${avatar.href}" 
+        x="${avatar.x}" 
+        y="${avatar.y}" 
+        width="${avatar.size}" 
+        height="${avatar.size}" 
+        preserveAspectRatio="xMidYMid slice" 
+        clip-path="url(#${avatar.clipId})"${transform} />`
+    : "";
+
+  const tspans = layout.lines
+    .map(
+      (line) =>
+        `<tspan x="${line.x}" y="${line.y}" font-size="${line.fontSize}" font-weight="${line.fontWeight}" fill-opacity="${line.opacity}">${escapeXml(line.text)}</tspan>`
+    )
+    .join("");
+
+  return `${avatarSvg}
+        <text 
+        font-family="${LABEL_FONT_FAMILY}" 
+        fill="${layout.color}" 
+        text-anchor="${layout.anchor}"${transform}>${tspans}</text>`;
 }
 
-function getTrianglePoints(
-  x: number,
-  y: number,
-  width: number,
-  height: number
+function labelToSVG(
+  shape: RectangleShape | EllipseShape,
+  transform: string
 ): string {
-  // Isoceles triangle pointing up
-  const topX = x + width / 2;
-  const topY = y;
-  const bottomLeftX = x;
-  const bottomLeftY = y + height;
-  const bottomRightX = x + width;
-  const bottomRightY = y + height;
+  const layout = layoutLabel(shape);
+  if (!layout) {
+    return "";
+  }
 
-  return `${topX},${topY} ${bottomLeftX},${bottomLeftY} ${bottomRightX},${bottomRightY}`;
+  const tspans = layout.lines
+    .map(
+      (line) =>
+        `<tspan x="${line.x}" y="${line.y}">${escapeXml(line.text)}</tspan>`
+    )
+    .join("");
+
+  return `
+        <text 
+        font-family="${LABEL_FONT_FAMILY}" 
+        font-size="${layout.fontSize}" 
+        font-weight="${layout.fontWeight}" 
+        fill="${layout.color}" 
+        text-anchor="${layout.anchor}" 
+        xml:space="preserve"${transform}>${tspans}</text>`;
 }
 
-function getElbowPath(shape: ElbowConnectorShape): string {
-  const { startPoint, endPoint, startDirection } = shape;
-
-  if (startDirection === "vertical") {
-    // Check if we are connecting to the side of a child (Vertical Stack layout)
-    if (
-      shape.endBinding?.side === "left" ||
-      shape.endBinding?.side === "right"
-    ) {
-      // "Jogged Spine" style for vertical lists (Image 2 style)
-      // Parent Center -> Down -> Left/Right to Spine -> Down -> Right/Left to Child
-      const spineOffset = 20; // Distance from child left edge to spine
-      const verticalDrop = 20; // How far down from parent before jogging
-
-      const spineX =
-        shape.endBinding.side === "left"
-          ? endPoint.x - spineOffset
-          : endPoint.x + spineOffset;
-
-      const jogY = startPoint.y + verticalDrop;
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
 
-      return `M ${startPoint.x} ${startPoint.y} L ${startPoint.x} ${jogY} L ${spineX} ${jogY} L ${spineX} ${endPoint.y} L ${endPoint.x} ${endPoint.y}`;
-    }
+function getCenterX(shape: Shape): number {
+  if (shape.type === "elbow-connector") {
+    return (shape.startPoint.x + shape.endPoint.x) / 2;
+  }
+  return shape.x + ("width" in shape ? shape.width / 2 : 0);
+}
 
-    // Standard Vertical -> Top/Bottom connection (Org Chart Tree layout)
-    // Needs a mid-point for the horizontal segment
-    const midY = (startPoint.y + endPoint.y) / 2;
-    return `M ${startPoint.x} ${startPoint.y} L ${startPoint.x} ${midY} L ${endPoint.x} ${midY} L ${endPoint.x} ${endPoint.y}`;
+function getCenterY(shape: Shape): number {
+  if (shape.type === "elbow-connector") {
+    return (shape.startPoint.y + shape.endPoint.y) / 2;
   }
-  // Horizontal start
-  const midX = (startPoint.x + endPoint.x) / 2;
-  return `M ${startPoint.x} ${startPoint.y} L ${midX} ${startPoint.y} L ${midX} ${endPoint.y} L ${endPoint.x} ${endPoint.y}`;
+  return shape.y + ("height" in shape ? shape.height / 2 : 0);
 }
 
 /**
@@ -185,6 +239,35 @@ export function shapesToSVGDocument(
 </svg>`;
 }
 
+/**
+ * Render shapes into a standalone SVG document, shifted so the bounding
+ * box (with padding) starts at (0,0).
+ */
+export function renderShapesSVG(shapes: Shape[]): {
+  svgContent: string;
+  width: number;
+  height: number;
+} {
+  const bbox = getShapesBoundingBox(shapes);
+
+  const normalizedShapes = shapes.map((shape) => {
+    const s = { ...shape };
+    if (s.type === "elbow-connector") {
+      s.startPoint = { x: s.startPoint.x - bbox.x, y: s.startPoint.y - bbox.y };
+      s.endPoint = { x: s.endPoint.x - bbox.x, y: s.endPoint.y - bbox.y };
+    }
+    s.x -= bbox.x;
+    s.y -= bbox.y;
+    return s;
+  });
+
+  return {
+    svgContent: shapesToSVGDocument(normalizedShapes, bbox.width, bbox.height),
+    width: bbox.width,
+    height: bbox.height,
+  };
+}
+
 /**
  * Get bounding box for all shapes
  */
@@ -227,105 +310,15 @@ export function getShapesBoundingBox(shapes: Shape[]): {
   };
 }
 
-function getRectPath(
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  rx: number
-): string {
-  // Clamp rx to prevent artifacts if shape is smaller than radius
-  const maxRx = Math.min(width, height) / 2;
-  const radius = Math.min(Math.max(rx, 0), maxRx);
-
-  // If no corner radius, simple rect
-  if (radius === 0) {
-    return `M ${x} ${y} L ${x + width} ${y} L ${x + width} ${y + height} L ${x} ${y + height} Z`;
-  }
-
-  // Custom path for rounded rect (better compatibility than <rect rx>)
-  return `M ${x + radius} ${y} 
-    L ${x + width - radius} ${y} 
-    Q ${x + width} ${y} ${x + width} ${y + radius} 
-    L ${x + width} ${y + height - radius} 
-    Q ${x + width} ${y + height} ${x + width - radius} ${y + height} 
-    L ${x + radius} ${y + height} 
-    Q ${x} ${y + height} ${x} ${y + height - radius} 
-    L ${x} ${y + radius} 
-    Q ${x} ${y} ${x + radius} ${y} Z`.replace(/\s+/g, " ");
-}
-
-function getEllipsePath(
-  x: number,
-  y: number,
-  width: number,
-  height: number
-): string {
-  const cy = y + height / 2;
-  const rx = width / 2;
-  const ry = height / 2;
-
-  return `M ${x} ${cy} 
-    A ${rx} ${ry} 0 1 1 ${x + width} ${cy} 
-    A ${rx} ${ry} 0 1 1 ${x} ${cy} Z`.replace(/\s+/g, " ");
-}
-
 function renderArrowhead(
   shape: ElbowConnectorShape,
   position: "start" | "end"
 ): string {
-  const type = position === "start" ? shape.startArrowhead : shape.endArrowhead;
-  if (type === "none") {
+  const arrowhead = getArrowhead(shape, position);
+  if (!arrowhead) {
     return "";
   }
 
-  const { startPoint, endPoint, startDirection } = shape;
-  let x: number;
-  let y: number;
-  let rotation: number;
-
-  if (position === "start") {
-    x = startPoint.x;
-    y = startPoint.y;
-    rotation = getArrowRotation(startPoint, endPoint, startDirection, "start");
-  } else {
-    x = endPoint.x;
-    y = endPoint.y;
-    rotation = getArrowRotation(startPoint, endPoint, startDirection, "end");
-  }
-
-  const transform = `transform="translate(${x}, ${y}) rotate(${rotation})"`;
-
-  if (type === "arrow") {
-    // Standard arrow
-    return `<path d="M -10 -5 L 0 0 L -10 5" fill="none" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}" stroke-linecap="round" stroke-linejoin="round" ${transform} />`;
-  }
-  if (type === "bar") {
-    // Bar/T-shape
-    return `<path d="M 0 -6 L 0 6" fill="none" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}" stroke-linecap="round" ${transform} />`;
-  }
-
-  return "";
-}
-
-function getArrowRotation(
-  startPoint: { x: number; y: number },
-  endPoint: { x: number; y: number },
-  startDirection: "horizontal" | "vertical",
-  position: "start" | "end"
-): number {
-  if (position === "start") {
-    if (startDirection === "horizontal") {
-      const midX = (startPoint.x + endPoint.x) / 2;
-      return midX > startPoint.x ? 180 : 0;
-    }
-    const midY = (startPoint.y + endPoint.y) / 2;
-    return midY > startPoint.y ? 270 : 90;
-  }
-  if (startDirection === "horizontal") {
-    const midX = (startPoint.x + endPoint.x) / 2;
-    return endPoint.x > midX ? 0 : 180;
-  }
-  const midY = (startPoint.y + endPoint.y) / 2;
-  return endPoint.y > midY ? 90 : 270;
+  const transform = `transform="translate(${arrowhead.x}, ${arrowhead.y}) rotate(${arrowhead.rotation})"`;
+  return `<path d="${toSVGPathData(arrowhead.path)}" fill="none" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}" stroke-linecap="round" stroke-linejoin="round" ${transform} />`;
 }
@@ -6,6 +6,7 @@ export type ShapeType =
   | "triangle"
   | "elbow-connector";
 export type ArrowheadType = "none" | "arrow" | "bar";
+export type TextAlign = "left" | "center" | "right";
 
 export interface Point {
   x: number;
@@ -27,6 +28,25 @@ export interface BaseShape {
   childLayout?: "horizontal" | "vertical";
 }
 
+// Text shown inside a box, one entry per line break
+export interface ShapeLabel {
+  text: string;
+  fontSize: number;
+  fontWeight: "normal" | "bold";
+  color: string;
+  align: TextAlign;
+}
+
+// Structured person details rendered as a card inside a box
+export interface PersonCard {
+  name: string;
+  title: string;
+  department: string;
+  email: string;
+  // Data URI, so exports never reference external images
+  avatar?: string;
+}
+
 export interface RectangleShape extends BaseShape {
   type: "rectangle";
   width: number;
@@ -34,6 +54,10 @@ export interface RectangleShape extends BaseShape {
   cornerRadius: number;
   // Org chart level (0 = top level, 1 = first reports, etc.)
   level: number;
+  label?: ShapeLabel;
+  person?: PersonCard;
+  // Grow to fit label/card during layout (default). False once sized by hand.
+  autoSize?: boolean;
 }
 
 export interface EllipseShape extends BaseShape {
@@ -42,6 +66,10 @@ export interface EllipseShape extends BaseShape {
   height: number;
   // Org chart level
   level: number;
+  label?: ShapeLabel;
+  person?: PersonCard;
+  // Grow to fit label/card during layout (default). False once sized by hand.
+  autoSize?: boolean;
 }
 
 export interface TriangleShape extends BaseShape {
@@ -67,6 +95,9 @@ export interface ElbowConnectorShape extends BaseShape {
   // Arrowheads
   startArrowhead: ArrowheadType;
   endArrowhead: ArrowheadType;
+  // Position of the end box among its parent's children. Unset ones follow
+  // the ordered ones, in array order.
+  siblingOrder?: number;
 }
 
 export type Shape =
@@ -79,6 +110,20 @@ export type Shape =
 export const DEFAULT_FILL = "#ffffff";
 export const DEFAULT_STROKE = "#000000";
 export const DEFAULT_STROKE_WIDTH = 1.25;
+export const DEFAULT_LABEL: ShapeLabel = {
+  text: "",
+  fontSize: 12,
+  fontWeight: "normal",
+  color: "#000000",
+  align: "center",
+};
+
+export const EMPTY_PERSON: PersonCard = {
+  name: "",
+  title: "",
+  department: "",
+  email: "",
+};
 
 export function createId(): string {
   return Math.random().toString(36).substring(2, 11);
@@ -103,6 +148,7 @@ export function createRectangle(
     cornerRadius: 0,
     level,
     stacked: false,
+    label: { ...DEFAULT_LABEL },
   };
 }
 
@@ -120,6 +166,7 @@ export function createEllipse(x: number, y: number, level = 0): EllipseShape {
     rotation: 0,
     level,
     stacked: false,
+    label: { ...DEFAULT_LABEL },
   };
 }
 
@@ -166,6 +213,34 @@ export function createBoundConnector(
   };
 }
 
+// Parent -> child connector, as created by addChild
+export function createOrgConnector(
+  parentId: string,
+  childId: string,
+  parentChildLayout: BaseShape["childLayout"]
+): ElbowConnectorShape {
+  return {
+    id: createId(),
+    type: "elbow-connector",
+    x: 0,
+    y: 0,
+    startPoint: { x: 0, y: 0 },
+    endPoint: { x: 0, y: 0 },
+    startDirection: "vertical",
+    startBinding: { shapeId: parentId, side: "bottom" },
+    endBinding: {
+      shapeId: childId,
+      side: parentChildLayout === "vertical" ? "left" : "top",
+    },
+    startArrowhead: "none",
+    endArrowhead: "none",
+    fill: "none",
+    stroke: DEFAULT_STROKE,
+    strokeWidth: DEFAULT_STROKE_WIDTH,
+    rotation: 0,
+  };
+}
+
 // Free-floating connector (not bound to shapes)
 export function createElbowConnector(
   startX: number,
@@ -0,0 +1,107 @@
+import { CURRENT_SCHEMA_VERSION, isRecord, validateChart } from "./schema";
+import type { ChartData } from "./storage";
+
+// Share links carry the whole chart, deflated and base64url-encoded, in the
+// URL fragment of the viewer route. Browsers never send the fragment to a
+// server, so the chart only travels with the link itself.
+const SHARE_FORMAT = "baganify-share";
+export const SHARE_PATH = "/v";
+
+const BASE64_PADDING_REGEX = /=+$/;
+
+export interface SharedChart {
+  name: string;
+  data: ChartData;
+  // What validation repaired, for telling the user
+  fixes: string[];
+}
+
+/**
+ * Thrown by `readShareLink` when a link can't be opened; the message is
+ * meant for the user.
+ */
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+/**
+ * Full URL of the read-only viewer with the chart packed into the hash.
+ */
+export async function createShareLink(
+  name: string,
+  data: Omit<ChartData, "schemaVersion">
+): Promise<string> {
+  const json = JSON.stringify({
+    format: SHARE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    name,
+    ...data,
+  });
+  const bytes = await pipe(
+    new TextEncoder().encode(json),
+    new CompressionStream("deflate-raw")
+  );
+  return `${window.location.origin}${SHARE_PATH}#${toBase64Url(bytes)}`;
+}
+
+/**
+ * Unpack the chart from a share link's hash (without the leading `#`).
+ */
+export async function readShareLink(hash: string): Promise<SharedChart> {
+  let raw: unknown;
+  try {
+    const bytes = await pipe(
+      fromBase64Url(hash),
+      new DecompressionStream("deflate-raw")
+    );
+    raw = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ShareLinkError("This share link is incomplete or damaged.");
+  }
+  if (!isRecord(raw) || raw.format !== SHARE_FORMAT) {
+    throw new ShareLinkError("This share link is incomplete or damaged.");
+  }
+  if (
+    typeof raw.schemaVersion === "number" &&
+    raw.schemaVersion > CURRENT_SCHEMA_VERSION
+  ) {
+    throw new ShareLinkError(
+      "This chart was shared from a newer version of Baganify."
+    );
+  }
+
+  const { data, report } = validateChart(raw);
+  return {
+    name: typeof raw.name === "string" && raw.name ? raw.name : "Shared chart",
+    data,
+    fixes: report.fixes,
+  };
+}
+
+async function pipe(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// URL-safe alphabet without padding, so the hash needs no escaping
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(BASE64_PADDING_REGEX, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replaceAll("-", "+").replaceAll("_", "/"));
+  return new Uint8Array(Array.from(binary, (c) => c.charCodeAt(0)));
+}
@@ -1,8 +1,12 @@
 import type { LayoutParams } from "./layout/types";
 import { DEFAULT_LAYOUT_PARAMS } from "./layout/types";
+import { CURRENT_SCHEMA_VERSION, validateChart } from "./schema";
 import type { Shape, Viewport } from "./store/shapes";
+import { publishChartChange } from "./sync";
 
 export interface ChartData {
+  // See schema.ts; charts from before versioning have none
+  schemaVersion: number;
   shapes: Record<string, Shape>;
   shapeIds: string[];
   layoutParams: LayoutParams;
@@ -12,59 +16,278 @@ export interface ChartData {
 export interface ChartMeta {
   id: string;
   name: string;
+  createdAt: number;
   updatedAt: number;
+  // Bumped on every data save, so a tab can tell another one saved since
+  revision: number;
+  // Set while the chart sits in the trash
+  deletedAt?: number;
 }
 
+/**
+ * Thrown by `saveChart` when the chart was saved elsewhere since the
+ * revision the caller last saw.
+ */
+export class ChartConflictError extends Error {
+  constructor(id: string) {
+    super(`Chart ${id} was changed in another tab`);
+    this.name = "ChartConflictError";
+  }
+}
+
+// A frozen copy of a chart, kept alongside it as version history
+export interface ChartSnapshot {
+  id: string;
+  chartId: string;
+  // Optional, e.g. "Before Q3 reorg"
+  label: string;
+  createdAt: number;
+  data: ChartData;
+}
+
+export interface LoadedChart {
+  data: ChartData;
+  // What validation repaired, for telling the user
+  fixes: string[];
+}
+
+// Charts live in IndexedDB: metadata and (possibly large) chart data are
+// kept in separate stores so listing charts never loads embedded images.
+const DB_NAME = "baganify";
+const DB_VERSION = 3;
+const META_STORE = "charts";
+const DATA_STORE = "chart_data";
+// Shapes validation could not repair, per chart, kept for manual recovery
+const QUARANTINE_STORE = "quarantine";
+const SNAPSHOT_STORE = "snapshots";
+
+// Keys used before the move to IndexedDB
 const INDEX_KEY = "baganify_charts_index";
 const CHART_PREFIX = "baganify_chart_";
 
-export function getAllCharts(): ChartMeta[] {
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(META_STORE, { keyPath: "id" });
+          db.createObjectStore(DATA_STORE);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(QUARANTINE_STORE);
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: "id" }).createIndex(
+            "chartId",
+            "chartId"
+          );
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+    // Let the next call retry instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Writes are only durable once the whole transaction completes; quota
+// errors surface here as a QuotaExceededError
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * User-facing explanation for a failed save, calling out a full storage
+ * quota (usually large embedded photos) separately from other failures.
+ */
+export function getSaveErrorMessage(error: unknown): string {
+  return error instanceof DOMException && error.name === "QuotaExceededError"
+    ? "Browser storage is full. Remove photos or delete old charts to keep saving."
+    : "Failed to save chart";
+}
+
+// Copy charts saved by older versions into IndexedDB, then drop them
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+  const index = readLegacy<ChartMeta[]>(INDEX_KEY);
+  if (!index) {
+    return;
+  }
+
+  const tx = db.transaction([META_STORE, DATA_STORE], "readwrite");
+  for (const meta of index) {
+    const data = readLegacy<ChartData>(CHART_PREFIX + meta.id);
+    if (data) {
+      tx.objectStore(META_STORE).put(meta);
+      tx.objectStore(DATA_STORE).put(data, meta.id);
+    }
+  }
+  await transactionDone(tx);
+
+  for (const meta of index) {
+    localStorage.removeItem(CHART_PREFIX + meta.id);
+  }
+  localStorage.removeItem(INDEX_KEY);
+}
+
+function readLegacy<T>(key: string): T | null {
   try {
-    const raw = localStorage.getItem(INDEX_KEY);
-    return raw ? JSON.parse(raw) : [];
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    console.error("Failed to read legacy chart data", key, e);
+    return null;
+  }
+}
+
+async function readAllMeta(): Promise<ChartMeta[]> {
+  try {
+    const db = await openDatabase();
+    const index = await requestResult<ChartMeta[]>(
+      db.transaction(META_STORE).objectStore(META_STORE).getAll()
+    );
+    // Charts saved before createdAt existed count as created when last saved
+    return index.map((meta) => ({
+      ...meta,
+      createdAt: meta.createdAt ?? meta.updatedAt,
+      revision: meta.revision ?? 0,
+    }));
   } catch (e) {
     console.error("Failed to load charts index", e);
     return [];
   }
 }
 
-export function getChart(id: string): ChartData | null {
+export async function getAllCharts(): Promise<ChartMeta[]> {
+  const index = await readAllMeta();
+  // Sort by recent
+  return index
+    .filter((meta) => meta.deletedAt === undefined)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Charts in the trash, most recently deleted first.
+ */
+export async function getTrashedCharts(): Promise<ChartMeta[]> {
+  const index = await readAllMeta();
+  return index
+    .filter((meta) => meta.deletedAt !== undefined)
+    .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+}
+
+/**
+ * Load a chart, migrated to the current schema and repaired. Shapes that
+ * could not be repaired are moved to the quarantine store, and the repaired
+ * chart is written back so they are only set aside once.
+ */
+export async function getChart(id: string): Promise<LoadedChart | null> {
   try {
-    const raw = localStorage.getItem(CHART_PREFIX + id);
-    return raw ? JSON.parse(raw) : null;
+    const db = await openDatabase();
+    const raw = await requestResult<unknown>(
+      db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id)
+    );
+    if (raw === undefined) {
+      return null;
+    }
+
+    const { data, report } = validateChart(raw);
+    if (report.quarantined.length > 0) {
+      const tx = db.transaction([QUARANTINE_STORE, DATA_STORE], "readwrite");
+      // Read again inside the write, in case another load got here first
+      const current = validateChart(
+        await requestResult<unknown>(tx.objectStore(DATA_STORE).get(id))
+      );
+      if (current.report.quarantined.length > 0) {
+        const store = tx.objectStore(QUARANTINE_STORE);
+        const existing = await requestResult<unknown[] | undefined>(
+          store.get(id)
+        );
+        store.put([...(existing ?? []), ...current.report.quarantined], id);
+        // Same content minus what was set aside, so the revision stays
+        tx.objectStore(DATA_STORE).put(current.data, id);
+      }
+      await transactionDone(tx);
+    }
+    if (report.fixes.length > 0) {
+      console.warn("Repaired chart", id, report.fixes);
+    }
+    return { data, fixes: report.fixes };
   } catch (e) {
     console.error("Failed to load chart", id, e);
     return null;
   }
 }
 
-export function saveChart(
+/**
+ * Write a chart. Pass the revision the caller last loaded or saved to
+ * refuse the write with a ChartConflictError if another tab saved since.
+ */
+export async function saveChart(
   id: string,
   name: string,
-  data: ChartData
-): ChartMeta {
+  data: Omit<ChartData, "schemaVersion">,
+  expectedRevision?: number
+): Promise<ChartMeta> {
   try {
-    // 1. Save data
-    localStorage.setItem(CHART_PREFIX + id, JSON.stringify(data));
-
-    // 2. Update Index
-    const index = getAllCharts();
-    const existing = index.find((c) => c.id === id);
-    const now = Date.now();
-    let meta: ChartMeta;
-
-    if (existing) {
-      existing.updatedAt = now;
-      existing.name = name;
-      meta = existing;
-    } else {
-      meta = { id, name, updatedAt: now };
-      index.push(meta);
+    const db = await openDatabase();
+    const tx = db.transaction([META_STORE, DATA_STORE], "readwrite");
+    const metaStore = tx.objectStore(META_STORE);
+    const existing = await requestResult<ChartMeta | undefined>(
+      metaStore.get(id)
+    );
+    const currentRevision = existing?.revision ?? 0;
+    if (
+      existing &&
+      expectedRevision !== undefined &&
+      currentRevision !== expectedRevision
+    ) {
+      tx.abort();
+      throw new ChartConflictError(id);
     }
 
-    // Sort by recent
-    index.sort((a, b) => b.updatedAt - a.updatedAt);
-    localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+    const now = Date.now();
+    const meta: ChartMeta = {
+      id,
+      name,
+      createdAt: existing?.createdAt ?? existing?.updatedAt ?? now,
+      updatedAt: now,
+      revision: currentRevision + 1,
+      // An editor still open on a trashed chart must not restore it
+      deletedAt: existing?.deletedAt,
+    };
+    tx.objectStore(DATA_STORE).put(
+      { ...data, schemaVersion: CURRENT_SCHEMA_VERSION },
+      id
+    );
+    metaStore.put(meta);
+    await transactionDone(tx);
+    publishChartChange({
+      type: "saved",
+      chartId: id,
+      revision: meta.revision,
+    });
     return meta;
   } catch (e) {
     console.error("Failed to save chart", e);
@@ -72,29 +295,286 @@ export function saveChart(
   }
 }
 
-export function deleteChart(id: string) {
-  localStorage.removeItem(CHART_PREFIX + id);
-  const index = getAllCharts().filter((c) => c.id !== id);
-  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
-  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+/**
+ * Store where a chart was last panned and zoomed to. Unlike saveChart this
+ * keeps the revision, so other tabs never see a viewport change as an edit.
+ */
+export async function saveViewport(
+  id: string,
+  viewport: Viewport
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(DATA_STORE, "readwrite");
+  const store = tx.objectStore(DATA_STORE);
+  const data = await requestResult<ChartData | undefined>(store.get(id));
+  if (data) {
+    store.put({ ...data, viewport }, id);
+  }
+  await transactionDone(tx);
 }
 
-export function createNewChart(id: string, name: string): ChartMeta {
-  const meta = { id, name, updatedAt: Date.now() };
-  const index = getAllCharts();
-  index.unshift(meta);
-  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+export async function renameChart(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, "readwrite");
+  const store = tx.objectStore(META_STORE);
+  const meta = await requestResult<ChartMeta | undefined>(store.get(id));
+  if (meta) {
+    store.put({ ...meta, name });
+  }
+  await transactionDone(tx);
+  publishChartChange({ type: "index" });
+}
 
+/**
+ * Copy a chart under a new id, named after the original.
+ */
+export async function duplicateChart(id: string): Promise<ChartMeta | null> {
+  const [chart, charts] = await Promise.all([getChart(id), getAllCharts()]);
+  if (!chart) {
+    return null;
+  }
+  const name = charts.find((c) => c.id === id)?.name ?? "Untitled Chart";
+  return saveChart(createChartId(), `${name} (copy)`, chart.data);
+}
+
+// Set or clear the trash marker without touching the chart data
+async function setDeletedAt(id: string, deletedAt: number | undefined) {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, "readwrite");
+  const store = tx.objectStore(META_STORE);
+  const meta = await requestResult<ChartMeta | undefined>(store.get(id));
+  if (meta) {
+    store.put({ ...meta, deletedAt });
+  }
+  await transactionDone(tx);
+  publishChartChange({ type: "index" });
+}
+
+/**
+ * Move a chart to the trash. It keeps its data and versions until purged.
+ */
+export function deleteChart(id: string): Promise<void> {
+  return setDeletedAt(id, Date.now());
+}
+
+export function restoreChart(id: string): Promise<void> {
+  return setDeletedAt(id, undefined);
+}
+
+/**
+ * Permanently delete a chart with its versions and quarantined shapes.
+ */
+export async function purgeChart(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(
+    [META_STORE, DATA_STORE, SNAPSHOT_STORE, QUARANTINE_STORE],
+    "readwrite"
+  );
+  tx.objectStore(DATA_STORE).delete(id);
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(QUARANTINE_STORE).delete(id);
+  await deleteChartSnapshots(tx.objectStore(SNAPSHOT_STORE), id);
+  await transactionDone(tx);
+  publishChartChange({ type: "index" });
+}
+
+async function deleteChartSnapshots(store: IDBObjectStore, chartId: string) {
+  const snapshotIds = await requestResult(
+    store.index("chartId").getAllKeys(chartId)
+  );
+  for (const snapshotId of snapshotIds) {
+    store.delete(snapshotId);
+  }
+}
+
+const TRASH_RETENTION_KEY = "baganify_trash_retention_days";
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a chart stays in the trash; null keeps it until deleted by hand
+export function getTrashRetentionDays(): number | null {
+  const raw = localStorage.getItem(TRASH_RETENTION_KEY);
+  if (raw === null) {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+  return raw === "never" ? null : Number(raw);
+}
+
+export function setTrashRetentionDays(days: number | null): void {
+  localStorage.setItem(
+    TRASH_RETENTION_KEY,
+    days === null ? "never" : `${days}`
+  );
+}
+
+/**
+ * Purge charts that have been in the trash longer than the retention period.
+ */
+export async function purgeExpiredCharts(): Promise<void> {
+  const days = getTrashRetentionDays();
+  if (days === null) {
+    return;
+  }
+  const cutoff = Date.now() - days * DAY_MS;
+  const expired = (await getTrashedCharts()).filter(
+    (meta) => (meta.deletedAt ?? 0) < cutoff
+  );
+  for (const meta of expired) {
+    await purgeChart(meta.id);
+  }
+}
+
+export async function saveSnapshot(
+  chartId: string,
+  label: string,
+  data: Omit<ChartData, "schemaVersion">
+): Promise<ChartSnapshot> {
+  const snapshot: ChartSnapshot = {
+    id: crypto.randomUUID(),
+    chartId,
+    label,
+    createdAt: Date.now(),
+    data: { ...data, schemaVersion: CURRENT_SCHEMA_VERSION },
+  };
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+  tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+  await transactionDone(tx);
+  return snapshot;
+}
+
+/**
+ * Snapshots of a chart, newest first, migrated to the current schema.
+ */
+export async function getSnapshots(chartId: string): Promise<ChartSnapshot[]> {
+  try {
+    const db = await openDatabase();
+    const snapshots = await requestResult<ChartSnapshot[]>(
+      db
+        .transaction(SNAPSHOT_STORE)
+        .objectStore(SNAPSHOT_STORE)
+        .index("chartId")
+        .getAll(chartId)
+    );
+    return snapshots
+      .map((snapshot) => ({
+        ...snapshot,
+        data: validateChart(snapshot.data).data,
+      }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    console.error("Failed to load snapshots", chartId, e);
+    return [];
+  }
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+  tx.objectStore(SNAPSHOT_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+// Everything stored for one chart, as written to and read from backups
+export interface ChartRecord {
+  meta: ChartMeta;
+  data: ChartData;
+  snapshots: ChartSnapshot[];
+}
+
+// What to do with a backed up chart whose id is already in storage
+export type CollisionStrategy = "skip" | "overwrite" | "duplicate";
+
+/**
+ * Every chart with its versions, including charts in the trash. Data is
+ * returned as stored, not migrated, so nothing is lost on the way out.
+ */
+export async function getAllChartRecords(): Promise<ChartRecord[]> {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, DATA_STORE, SNAPSHOT_STORE]);
+  const [index, snapshots] = await Promise.all([
+    requestResult<ChartMeta[]>(tx.objectStore(META_STORE).getAll()),
+    requestResult<ChartSnapshot[]>(tx.objectStore(SNAPSHOT_STORE).getAll()),
+  ]);
+  const records: ChartRecord[] = [];
+  for (const meta of index) {
+    const data = await requestResult<ChartData | undefined>(
+      tx.objectStore(DATA_STORE).get(meta.id)
+    );
+    if (data) {
+      records.push({
+        meta,
+        data,
+        snapshots: snapshots.filter((s) => s.chartId === meta.id),
+      });
+    }
+  }
+  return records;
+}
+
+/**
+ * Write validated chart records in a single transaction, so a failed
+ * import leaves storage as it was. Returns how many charts were written.
+ */
+export async function importChartRecords(
+  records: ChartRecord[],
+  strategy: CollisionStrategy
+): Promise<number> {
+  const db = await openDatabase();
+  const tx = db.transaction(
+    [META_STORE, DATA_STORE, SNAPSHOT_STORE],
+    "readwrite"
+  );
+  const metaStore = tx.objectStore(META_STORE);
+  const snapshotStore = tx.objectStore(SNAPSHOT_STORE);
+  const saved: { chartId: string; revision: number }[] = [];
+
+  for (const { meta, data, snapshots } of records) {
+    const existing = await requestResult<ChartMeta | undefined>(
+      metaStore.get(meta.id)
+    );
+    if (existing && strategy === "skip") {
+      continue;
+    }
+    const duplicate = existing !== undefined && strategy === "duplicate";
+    // Overwrites bump the revision so open editors notice the new data
+    const { id, name, revision } = duplicate
+      ? { id: createChartId(), name: `${meta.name} (copy)`, revision: 1 }
+      : { ...meta, revision: (existing?.revision ?? 0) + 1 };
+    if (existing && !duplicate) {
+      // The backup's versions replace the overwritten chart's own
+      await deleteChartSnapshots(snapshotStore, id);
+    }
+
+    metaStore.put({ ...meta, id, name, revision });
+    tx.objectStore(DATA_STORE).put(data, id);
+    for (const snapshot of snapshots) {
+      snapshotStore.put({
+        ...snapshot,
+        id: duplicate ? crypto.randomUUID() : snapshot.id,
+        chartId: id,
+      });
+    }
+    saved.push({ chartId: id, revision });
+  }
+  await transactionDone(tx);
+
+  for (const { chartId, revision } of saved) {
+    publishChartChange({ type: "saved", chartId, revision });
+  }
+  publishChartChange({ type: "index" });
+  return saved.length;
+}
+
+export function createNewChart(id: string, name: string): Promise<ChartMeta> {
   // Initialize empty chart data to avoid "null" load
-  const emptyData: ChartData = {
+  const emptyData: Omit<ChartData, "schemaVersion"> = {
     shapes: {},
     shapeIds: [],
     layoutParams: DEFAULT_LAYOUT_PARAMS,
     viewport: { x: 0, y: 0, zoom: 1 },
   };
-  localStorage.setItem(CHART_PREFIX + id, JSON.stringify(emptyData));
-
-  return meta;
+  return saveChart(id, name, emptyData);
 }
 
 export function createChartId(): string {
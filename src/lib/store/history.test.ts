@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LAYOUT_PARAMS } from "../layout/types";
+import { createRectangle, DEFAULT_LABEL, type Shape } from "../shapes/types";
+import {
+  applyEntry,
+  describeProperties,
+  describeShapes,
+  diffSnapshots,
+  type HistorySnapshot,
+  mergeEntries,
+} from "./history";
+
+function snapshotOf(shapes: Shape[], selected: string[] = []): HistorySnapshot {
+  return {
+    shapes: Object.fromEntries(shapes.map((s) => [s.id, s])),
+    shapeIds: shapes.map((s) => s.id),
+    selectedIds: new Set(selected),
+    layoutParams: DEFAULT_LAYOUT_PARAMS,
+  };
+}
+
+const a = createRectangle(0, 0);
+const b = createRectangle(200, 0);
+
+describe("diffSnapshots", () => {
+  it("ignores selection-only changes and rebuilt but equal shapes", () => {
+    const before = snapshotOf([a, b]);
+    const after = snapshotOf([{ ...a }, { ...b }], [a.id]);
+    expect(diffSnapshots("Select", before, after)).toBeNull();
+  });
+
+  it("keeps only the shapes, order and settings that changed", () => {
+    const moved = { ...a, x: 50 };
+    const entry = diffSnapshots("Edit", snapshotOf([a]), {
+      ...snapshotOf([moved, b]),
+      layoutParams: { ...DEFAULT_LAYOUT_PARAMS, shapeGap: 40 },
+    });
+    expect(entry?.shapes).toEqual({
+      [a.id]: { before: a, after: moved },
+      [b.id]: { before: undefined, after: b },
+    });
+    expect(entry?.shapeIds).toEqual({
+      before: [a.id],
+      after: [a.id, b.id],
+    });
+    expect(entry?.layoutParams?.after.shapeGap).toBe(40);
+  });
+});
+
+describe("applyEntry", () => {
+  it("undoes and redoes an entry", () => {
+    const before = snapshotOf([a, b], [b.id]);
+    const after = snapshotOf([{ ...a, fill: "#000000" }], [a.id]);
+    const entry = diffSnapshots("Edit", before, after);
+    if (!entry) {
+      throw new Error("Expected a history entry");
+    }
+
+    expect(applyEntry(after, entry, "undo")).toEqual(before);
+    expect(applyEntry(before, entry, "redo")).toEqual(after);
+  });
+});
+
+describe("mergeEntries", () => {
+  it("folds two edits into one step from the first state to the last", () => {
+    const first = snapshotOf([a]);
+    const second = snapshotOf([{ ...a, width: 160 }]);
+    const third = snapshotOf([{ ...a, width: 180 }, b]);
+    const one = diffSnapshots("Change width", first, second);
+    const two = diffSnapshots("Change width again", second, third);
+    if (!(one && two)) {
+      throw new Error("Expected history entries");
+    }
+
+    const merged = mergeEntries(one, two);
+    expect(merged.label).toBe("Change width");
+    expect(applyEntry(third, merged, "undo")).toEqual(first);
+    expect(applyEntry(first, merged, "redo")).toEqual(third);
+  });
+});
+
+describe("describeProperties", () => {
+  it("names the properties of an update", () => {
+    expect(describeProperties({ fill: "#fff" })).toBe("fill");
+    expect(describeProperties({ width: 1, height: 2, stroke: "#000" })).toBe(
+      "width, height and border color"
+    );
+    expect(describeProperties({})).toBe("properties");
+  });
+});
+
+describe("describeShapes", () => {
+  it("names a single box by its label, otherwise counts shapes", () => {
+    const labelled = {
+      ...a,
+      label: { ...DEFAULT_LABEL, text: "CEO\nFounder" },
+    };
+    const shapes = { [a.id]: labelled, [b.id]: b };
+    expect(describeShapes(shapes, [a.id])).toBe("CEO");
+    expect(describeShapes(shapes, [b.id])).toBe("box");
+    expect(describeShapes(shapes, [a.id, b.id])).toBe("2 shapes");
+  });
+});
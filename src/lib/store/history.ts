@@ -0,0 +1,224 @@
+import type { LayoutParams } from "../layout/types";
+import type { Shape } from "../shapes/types";
+
+// The part of the editor state that undo and redo restore
+export interface HistorySnapshot {
+  shapes: Record<string, Shape>;
+  shapeIds: string[];
+  selectedIds: Set<string>;
+  layoutParams: LayoutParams;
+}
+
+interface Change<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * One undo step. Only the shapes the action touched are kept (`undefined`
+ * where a shape didn't exist), so an entry costs as much as its change.
+ * Shapes are never mutated in place, so keeping references is safe.
+ */
+export interface HistoryEntry {
+  // What the action did, e.g. "Add child under CEO"
+  label: string;
+  shapes: Record<string, Change<Shape | undefined>>;
+  // Null when the action kept the shape order
+  shapeIds: Change<string[]> | null;
+  layoutParams: Change<LayoutParams> | null;
+  selectedIds: Change<Set<string>>;
+}
+
+/**
+ * The forward and inverse patch between two states, or null when nothing but
+ * the selection changed (which isn't worth an undo step on its own).
+ */
+export function diffSnapshots(
+  label: string,
+  before: HistorySnapshot,
+  after: HistorySnapshot
+): HistoryEntry | null {
+  const shapes: HistoryEntry["shapes"] = {};
+  let changed = false;
+  // Relayout rebuilds every shape object, so compare by value
+  for (const id of new Set([
+    ...Object.keys(before.shapes),
+    ...Object.keys(after.shapes),
+  ])) {
+    const from = before.shapes[id];
+    const to = after.shapes[id];
+    if (!isEqual(from, to)) {
+      shapes[id] = { before: from, after: to };
+      changed = true;
+    }
+  }
+
+  const shapeIds = isEqual(before.shapeIds, after.shapeIds)
+    ? null
+    : { before: before.shapeIds, after: after.shapeIds };
+  const layoutParams = isEqual(before.layoutParams, after.layoutParams)
+    ? null
+    : { before: before.layoutParams, after: after.layoutParams };
+  if (!(changed || shapeIds || layoutParams)) {
+    return null;
+  }
+  return {
+    label,
+    shapes,
+    shapeIds,
+    layoutParams,
+    selectedIds: { before: before.selectedIds, after: after.selectedIds },
+  };
+}
+
+/**
+ * One entry that undoes both `first` and the `next` one recorded after it,
+ * used to fold rapid edits of the same property into a single step.
+ */
+export function mergeEntries(
+  first: HistoryEntry,
+  next: HistoryEntry
+): HistoryEntry {
+  const shapes = { ...first.shapes };
+  for (const [id, change] of Object.entries(next.shapes)) {
+    shapes[id] = {
+      before: (first.shapes[id] ?? change).before,
+      after: change.after,
+    };
+  }
+  return {
+    label: first.label,
+    shapes,
+    shapeIds: mergeChange(first.shapeIds, next.shapeIds),
+    layoutParams: mergeChange(first.layoutParams, next.layoutParams),
+    selectedIds: {
+      before: first.selectedIds.before,
+      after: next.selectedIds.after,
+    },
+  };
+}
+
+function mergeChange<T>(
+  first: Change<T> | null,
+  next: Change<T> | null
+): Change<T> | null {
+  if (!(first && next)) {
+    return first ?? next;
+  }
+  return { before: first.before, after: next.after };
+}
+
+/**
+ * Roll `snapshot` back over an entry ("undo") or forward again ("redo").
+ */
+export function applyEntry(
+  snapshot: HistorySnapshot,
+  entry: HistoryEntry,
+  direction: "undo" | "redo"
+): HistorySnapshot {
+  const side = direction === "undo" ? "before" : "after";
+  const shapes = { ...snapshot.shapes };
+  for (const [id, change] of Object.entries(entry.shapes)) {
+    const shape = change[side];
+    if (shape) {
+      shapes[id] = shape;
+    } else {
+      delete shapes[id];
+    }
+  }
+  return {
+    shapes,
+    shapeIds: entry.shapeIds ? entry.shapeIds[side] : snapshot.shapeIds,
+    layoutParams: entry.layoutParams
+      ? entry.layoutParams[side]
+      : snapshot.layoutParams,
+    selectedIds: entry.selectedIds[side],
+  };
+}
+
+// Structural equality for JSON-like shape data
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  if (keys.length !== Object.keys(bRecord).length) {
+    return false;
+  }
+  return keys.every((key) => isEqual(aRecord[key], bRecord[key]));
+}
+
+// Readable names for the properties edits change, for history labels
+const PROPERTY_NAMES: Record<string, string> = {
+  type: "shape",
+  fill: "fill",
+  stroke: "border color",
+  strokeWidth: "border width",
+  cornerRadius: "corner radius",
+  width: "width",
+  height: "height",
+  autoSize: "auto size",
+  stacked: "stacking",
+  startArrowhead: "start arrow",
+  endArrowhead: "end arrow",
+  text: "text",
+  fontSize: "font size",
+  fontWeight: "font weight",
+  color: "text color",
+  align: "alignment",
+  name: "name",
+  title: "title",
+  department: "department",
+  email: "email",
+  avatar: "photo",
+  levelHeight: "vertical spacing",
+  shapeGap: "horizontal spacing",
+  verticalIndent: "stack indent",
+  minBoxWidth: "min box width",
+  maxBoxWidth: "max box width",
+};
+
+/**
+ * "fill" or "width and height" for the keys of an update.
+ */
+export function describeProperties(updates: object): string {
+  const names = [
+    ...new Set(Object.keys(updates).map((key) => PROPERTY_NAMES[key] ?? key)),
+  ];
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names.at(-1)}`
+    : (names[0] ?? "properties");
+}
+
+/**
+ * "CEO" for one shape (its person's name or first label line), otherwise
+ * "3 shapes".
+ */
+export function describeShapes(
+  shapes: Record<string, Shape>,
+  ids: string[]
+): string {
+  if (ids.length !== 1) {
+    return `${ids.length} shapes`;
+  }
+  const shape = shapes[ids[0]];
+  if (!(shape?.type === "rectangle" || shape?.type === "ellipse")) {
+    return shape?.type === "elbow-connector" ? "connector" : "shape";
+  }
+  return (
+    shape.person?.name.trim() ||
+    shape.label?.text.split("\n")[0].trim() ||
+    "box"
+  );
+}
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_LAYOUT_PARAMS } from "../layout/types";
+import { createOrgConnector, createRectangle } from "../shapes/types";
+import { useShapeStore } from "./shapes";
+
+const box = createRectangle(0, 0);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  useShapeStore.getState().loadChart({
+    shapes: { [box.id]: box },
+    shapeIds: [box.id],
+    layoutParams: DEFAULT_LAYOUT_PARAMS,
+    viewport: { x: 0, y: 0, zoom: 1 },
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("shape store history", () => {
+  it("records an edit as one step that undo and redo replay", () => {
+    const store = useShapeStore.getState();
+    store.updateShape(box.id, { fill: "#ff0000" });
+    expect(useShapeStore.getState().history).toHaveLength(1);
+
+    store.undo();
+    expect(useShapeStore.getState().shapes[box.id].fill).toBe(box.fill);
+    store.redo();
+    expect(useShapeStore.getState().shapes[box.id].fill).toBe("#ff0000");
+  });
+
+  it("records nothing for edits of missing shapes", () => {
+    const store = useShapeStore.getState();
+    store.updatePerson("missing", { name: "Ada" });
+    store.updateShape("missing", { fill: "#ff0000" });
+    store.toggleChildLayout("missing");
+    // The relayout for a new canvas size must not become the bailed step
+    store.setCanvasSize(640, 480);
+    expect(useShapeStore.getState().history).toEqual([]);
+  });
+
+  it("merges rapid edits of the same property into one step", () => {
+    const store = useShapeStore.getState();
+    store.updateShape(box.id, { fill: "#111111" });
+    vi.advanceTimersByTime(500);
+    store.updateShape(box.id, { fill: "#222222" });
+    expect(useShapeStore.getState().history).toHaveLength(1);
+
+    store.undo();
+    expect(useShapeStore.getState().shapes[box.id]).toHaveProperty(
+      "fill",
+      box.fill
+    );
+  });
+
+  it("keeps separate steps for other properties and slower edits", () => {
+    const store = useShapeStore.getState();
+    store.updateShape(box.id, { fill: "#111111" });
+    store.updateShape(box.id, { stroke: "#ff0000" });
+    vi.advanceTimersByTime(1500);
+    store.updateShape(box.id, { stroke: "#00ff00" });
+    expect(useShapeStore.getState().history).toHaveLength(3);
+  });
+
+  it("starts a new step after undo and redo instead of merging", () => {
+    const store = useShapeStore.getState();
+    store.updateShape(box.id, { fill: "#111111" });
+    store.undo();
+    store.redo();
+    store.updateShape(box.id, { fill: "#333333" });
+    expect(useShapeStore.getState().history).toHaveLength(2);
+  });
+
+  it("makes layout settings undoable", () => {
+    const store = useShapeStore.getState();
+    store.setLayoutParams({ shapeGap: 60 });
+    expect(useShapeStore.getState().layoutParams.shapeGap).toBe(60);
+
+    store.undo();
+    expect(useShapeStore.getState().layoutParams).toEqual(
+      DEFAULT_LAYOUT_PARAMS
+    );
+  });
+});
+
+describe("reparentShape", () => {
+  const root = createRectangle(0, 0);
+  const a = createRectangle(0, 0, 1);
+  const b = createRectangle(0, 0, 1);
+  const toA = createOrgConnector(root.id, a.id, undefined);
+  const toB = createOrgConnector(root.id, b.id, undefined);
+
+  beforeEach(() => {
+    const shapes = [root, a, b, toA, toB];
+    useShapeStore.getState().loadChart({
+      shapes: Object.fromEntries(shapes.map((s) => [s.id, s])),
+      shapeIds: shapes.map((s) => s.id),
+      layoutParams: DEFAULT_LAYOUT_PARAMS,
+      viewport: { x: 0, y: 0, zoom: 1 },
+    });
+  });
+
+  it("rebinds the box's connector to its new parent as one step", () => {
+    const store = useShapeStore.getState();
+    store.reparentShape(b.id, a.id);
+    expect(useShapeStore.getState().shapes[toB.id]).toMatchObject({
+      startBinding: { shapeId: a.id },
+      endBinding: { shapeId: b.id },
+    });
+    expect(useShapeStore.getState().history).toHaveLength(1);
+
+    store.undo();
+    expect(useShapeStore.getState().shapes[toB.id]).toMatchObject({
+      startBinding: { shapeId: root.id },
+    });
+  });
+
+  it("records nothing for moves the rules don't allow", () => {
+    useShapeStore.getState().reparentShape(root.id, a.id);
+    expect(useShapeStore.getState().history).toEqual([]);
+  });
+
+  it("lets the moved box join its new siblings last", () => {
+    const store = useShapeStore.getState();
+    store.moveSibling(b.id, 0);
+    store.reparentShape(b.id, a.id);
+    expect(useShapeStore.getState().shapes[toB.id]).toHaveProperty(
+      "siblingOrder",
+      undefined
+    );
+  });
+});
+
+describe("moveSibling", () => {
+  const root = createRectangle(0, 0);
+  const children = [0, 1, 2].map(() => createRectangle(0, 0, 1));
+  const connectors = children.map((child) =>
+    createOrgConnector(root.id, child.id, undefined)
+  );
+
+  beforeEach(() => {
+    const shapes = [root, ...children, ...connectors];
+    useShapeStore.getState().loadChart({
+      shapes: Object.fromEntries(shapes.map((s) => [s.id, s])),
+      shapeIds: shapes.map((s) => s.id),
+      layoutParams: DEFAULT_LAYOUT_PARAMS,
+      viewport: { x: 0, y: 0, zoom: 1 },
+    });
+  });
+
+  const siblingOrders = () =>
+    connectors.map((c) => {
+      const connector = useShapeStore.getState().shapes[c.id];
+      return connector.type === "elbow-connector"
+        ? connector.siblingOrder
+        : null;
+    });
+
+  it("numbers every sibling in the new order as one step", () => {
+    useShapeStore.getState().moveSibling(children[2].id, 0);
+    expect(siblingOrders()).toEqual([1, 2, 0]);
+    expect(useShapeStore.getState().history).toHaveLength(1);
+  });
+
+  it("clamps the index and ignores moves to the same place", () => {
+    const store = useShapeStore.getState();
+    store.moveSibling(children[0].id, 10);
+    expect(siblingOrders()).toEqual([2, 0, 1]);
+    store.moveSibling(children[0].id, 2);
+    store.moveSibling(root.id, 0);
+    expect(useShapeStore.getState().history).toHaveLength(1);
+  });
+});
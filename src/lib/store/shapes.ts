@@ -2,8 +2,10 @@ import { create } from "zustand";
 import type {
   ElbowConnectorShape,
   EllipseShape,
+  PersonCard,
   RectangleShape,
   Shape as ShapeImport,
+  ShapeLabel,
 } from "../shapes/types";
 export type Shape = ShapeImport;
 
@@ -13,25 +15,44 @@ export interface Viewport {
   zoom: number;
 }
 
-import { createId, createRectangle } from "../shapes/types";
+import {
+  createId,
+  createOrgConnector,
+  createRectangle,
+  DEFAULT_LABEL,
+  EMPTY_PERSON,
+} from "../shapes/types";
 
 // Helper to reconstruct array from normalized state
 const getShapesArray = (shapes: Record<string, Shape>, ids: string[]) =>
   ids.map((id) => shapes[id]).filter(Boolean);
 
-interface HistoryState {
-  shapes: Record<string, Shape>;
-  shapeIds: string[];
-  selectedIds: Set<string>;
-}
-
+import { getSelectionShapes } from "../clipboard/copy";
 import {
+  canReparent,
   enforceHorizontalParents,
+  getSiblingConnectors,
   layoutShapesByLevel,
+  rebindConnectors,
   updateAllConnectors,
 } from "../layout/algorithm";
 import type { LayoutParams } from "../layout/types";
 import { DEFAULT_LAYOUT_PARAMS } from "../layout/types";
+import {
+  formatOutline,
+  outlineToShapes,
+  parseOutline,
+  shapesToOutline,
+} from "../outline";
+import {
+  applyEntry,
+  describeProperties,
+  describeShapes,
+  diffSnapshots,
+  type HistoryEntry,
+  type HistorySnapshot,
+  mergeEntries,
+} from "./history";
 
 interface ShapeStore {
   shapes: Record<string, Shape>;
@@ -41,9 +62,11 @@ interface ShapeStore {
   viewport: { x: number; y: number; zoom: number };
   layoutParams: LayoutParams;
 
-  // History
-  history: HistoryState[];
+  // History: entries before historyIndex are applied, the rest can be redone
+  history: HistoryEntry[];
   historyIndex: number;
+  // How many of the oldest entries were dropped to stay under MAX_HISTORY
+  historyOffset: number;
 
   // Clipboard
   clipboard: Shape[];
@@ -54,9 +77,13 @@ interface ShapeStore {
   setLayoutParams: (params: Partial<LayoutParams>) => void;
   addShape: (shape: Shape) => void;
   addBoxAtLevel: (level: number) => void;
+  importShapes: (shapes: Shape[], mode: "append" | "replace") => void;
+  applyOutline: (text: string) => void;
   removeShape: (id: string) => void;
   updateShape: <T extends Shape>(id: string, updates: Partial<T>) => void;
   updateShapes: (ids: string[], updates: Partial<Shape>) => void;
+  updateLabels: (ids: string[], updates: Partial<ShapeLabel>) => void;
+  updatePerson: (id: string, updates: Partial<PersonCard>) => void;
   selectShape: (id: string, addToSelection?: boolean) => void;
   selectShapes: (ids: string[]) => void;
   clearSelection: () => void;
@@ -78,23 +105,40 @@ interface ShapeStore {
   // History actions
   undo: () => void;
   redo: () => void;
-  saveHistory: () => void;
+  jumpToHistory: (index: number) => void;
+  // Edits sharing a coalesceKey in quick succession become one undo step
+  saveHistory: (label: string, coalesceKey?: string) => void;
 
   // Clipboard actions
   copySelected: () => void;
   pasteClipboard: () => void;
+  pasteShapes: (shapes: Shape[]) => void;
+  pasteOutline: (text: string) => void;
 
   // Connector actions
   connectSelectedShapes: () => boolean;
   addParent: (shapeId: string) => void;
   addChild: (shapeId: string) => void;
   toggleChildLayout: (shapeId: string) => void;
+  reparentShape: (shapeId: string, parentId: string) => void;
+  moveSibling: (shapeId: string, index: number) => void;
 
   getSelectedShapes: () => Shape[];
   getShapesArray: () => Shape[];
 }
 
-const MAX_HISTORY = 50;
+const MAX_HISTORY = 1000;
+// How long after an edit the next one with the same key still merges into it
+const COALESCE_MS = 1000;
+
+// State captured by saveHistory, diffed against the next change to the store
+let pending: {
+  label: string;
+  snapshot: HistorySnapshot;
+  coalesceKey?: string;
+} | null = null;
+// The newest entry, while later edits may still merge into it
+let lastEdit: { coalesceKey: string; time: number } | null = null;
 
 export const useShapeStore = create<ShapeStore>((set, get) => ({
   shapes: {},
@@ -104,26 +148,31 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   viewport: { x: 0, y: 0, zoom: 1 },
   layoutParams: DEFAULT_LAYOUT_PARAMS,
   history: [],
-  historyIndex: -1,
+  historyIndex: 0,
+  historyOffset: 0,
   clipboard: [],
 
   setViewport: (viewport) => set({ viewport }),
 
   loadChart: (data) => {
-    get().saveHistory();
+    pending = null;
+    lastEdit = null;
     set({
       shapes: data.shapes,
       shapeIds: data.shapeIds,
-      layoutParams: data.layoutParams,
+      // Charts saved before newer layout params existed fall back to defaults
+      layoutParams: { ...DEFAULT_LAYOUT_PARAMS, ...data.layoutParams },
       viewport: data.viewport,
       selectedIds: new Set(),
-      // Keep history or reset? Usually loading a chart resets history of previous session.
       history: [],
-      historyIndex: -1,
+      historyIndex: 0,
+      historyOffset: 0,
     });
   },
 
   reset: () => {
+    pending = null;
+    lastEdit = null;
     set({
       shapes: {},
       shapeIds: [],
@@ -131,101 +180,82 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
       viewport: { x: 0, y: 0, zoom: 1 },
       layoutParams: DEFAULT_LAYOUT_PARAMS,
       history: [],
-      historyIndex: -1,
+      historyIndex: 0,
+      historyOffset: 0,
     });
   },
 
   setLayoutParams: (params) => {
+    get().saveHistory(
+      `Change ${describeProperties(params)}`,
+      editKey("layout", [], params)
+    );
     set((state) => {
-      const newParams = { ...state.layoutParams, ...params };
-      const currentShapesArray = getShapesArray(state.shapes, state.shapeIds);
-      const layouted = layoutShapesByLevel(
-        currentShapesArray,
-        state.canvasSize.width,
-        state.canvasSize.height,
-        newParams
-      );
-
-      const finalShapes = updateAllConnectors(layouted);
-      const newShapesRecord: Record<string, Shape> = {};
-      const newShapeIds = finalShapes.map((s) => s.id);
-      for (const s of finalShapes) {
-        newShapesRecord[s.id] = s;
-      }
-
+      const layoutParams = { ...state.layoutParams, ...params };
       return {
-        layoutParams: newParams,
-        shapes: newShapesRecord,
-        shapeIds: newShapeIds,
+        layoutParams,
+        ...relayout(
+          { canvasSize: state.canvasSize, layoutParams },
+          state.shapes,
+          state.shapeIds
+        ),
       };
     });
   },
 
+  // Re-centring for a new canvas size isn't an edit, so it isn't undoable,
+  // nor part of whatever action last called saveHistory
   setCanvasSize: (width, height) => {
-    set({ canvasSize: { width, height } });
-    get().autoLayout();
-  },
-
-  // History Actions
-  saveHistory: () => {
+    pending = null;
     set((state) => {
-      // If we are not at the end of history, discard future
-      const history = state.history.slice(0, state.historyIndex + 1);
-
-      // Store deep copy
-      const storageEntry = {
-        shapes: JSON.parse(JSON.stringify(state.shapes)),
-        shapeIds: [...state.shapeIds],
-        selectedIds: new Set(state.selectedIds),
-      };
-
+      const canvasSize = { width, height };
       return {
-        history: [...history, storageEntry].slice(-MAX_HISTORY),
-        historyIndex: history.length,
+        canvasSize,
+        ...relayout(
+          { canvasSize, layoutParams: state.layoutParams },
+          state.shapes,
+          state.shapeIds
+        ),
       };
     });
   },
 
-  undo: () => {
-    set((state) => {
-      if (state.historyIndex <= 0) {
-        return state;
-      }
-      const newIndex = state.historyIndex - 1;
-      const historyState = state.history[newIndex];
-      if (!historyState) {
-        return state;
-      }
-      return {
-        shapes: JSON.parse(JSON.stringify(historyState.shapes)),
-        shapeIds: [...historyState.shapeIds],
-        selectedIds: new Set(historyState.selectedIds),
-        historyIndex: newIndex,
-      };
-    });
+  // History Actions
+  saveHistory: (label, coalesceKey) => {
+    const { shapes, shapeIds, selectedIds, layoutParams } = get();
+    pending = {
+      label,
+      snapshot: { shapes, shapeIds, selectedIds, layoutParams },
+      coalesceKey,
+    };
   },
 
-  redo: () => {
+  undo: () => get().jumpToHistory(get().historyIndex - 1),
+
+  redo: () => get().jumpToHistory(get().historyIndex + 1),
+
+  // Undo or redo every step between the current state and `index`
+  jumpToHistory: (index) => {
+    pending = null;
+    lastEdit = null;
     set((state) => {
-      if (state.historyIndex >= state.history.length - 1) {
+      const target = Math.min(Math.max(index, 0), state.history.length);
+      if (target === state.historyIndex) {
         return state;
       }
-      const newIndex = state.historyIndex + 1;
-      const historyState = state.history[newIndex];
-      if (!historyState) {
-        return state;
+      let snapshot: HistorySnapshot = state;
+      for (let i = state.historyIndex; i > target; i--) {
+        snapshot = applyEntry(snapshot, state.history[i - 1], "undo");
       }
-      return {
-        shapes: JSON.parse(JSON.stringify(historyState.shapes)),
-        shapeIds: [...historyState.shapeIds],
-        selectedIds: new Set(historyState.selectedIds),
-        historyIndex: newIndex,
-      };
+      for (let i = state.historyIndex; i < target; i++) {
+        snapshot = applyEntry(snapshot, state.history[i], "redo");
+      }
+      return { ...restore(state, snapshot), historyIndex: target };
     });
   },
 
   addShape: (shape) => {
-    get().saveHistory();
+    get().saveHistory("Add shape");
     const { canvasSize } = get();
     set((state) => {
       const currentShapesArray = getShapesArray(state.shapes, state.shapeIds);
@@ -253,7 +283,7 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   },
 
   addBoxAtLevel: (level: number) => {
-    get().saveHistory();
+    get().saveHistory("Add box");
     const { canvasSize, shapes, shapeIds } = get();
     const currentShapesArray = getShapesArray(shapes, shapeIds);
 
@@ -326,8 +356,51 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
     });
   },
 
+  importShapes: (imported, mode) => {
+    get().saveHistory(
+      mode === "replace" ? "Replace chart with import" : "Import shapes"
+    );
+    set((state) => {
+      const shapesMap = mode === "replace" ? {} : { ...state.shapes };
+      const ids = mode === "replace" ? [] : [...state.shapeIds];
+      for (const s of imported) {
+        shapesMap[s.id] = s;
+        ids.push(s.id);
+      }
+      return { ...relayout(state, shapesMap, ids), selectedIds: new Set() };
+    });
+  },
+
+  applyOutline: (text) => {
+    const { shapes, shapeIds } = get();
+    const currentShapes = getShapesArray(shapes, shapeIds);
+    const entries = parseOutline(text);
+    // Whitespace-only edits (blank lines, re-indented spacing) change nothing
+    if (
+      formatOutline(entries) === formatOutline(shapesToOutline(currentShapes))
+    ) {
+      return;
+    }
+
+    get().saveHistory("Edit outline");
+    set((state) => {
+      const next = outlineToShapes(currentShapes, entries);
+      const nextIds = new Set(next.map((s) => s.id));
+      return {
+        ...relayout(
+          state,
+          Object.fromEntries(next.map((s) => [s.id, s])),
+          next.map((s) => s.id)
+        ),
+        selectedIds: new Set(
+          [...state.selectedIds].filter((id) => nextIds.has(id))
+        ),
+      };
+    });
+  },
+
   removeShape: (id) => {
-    get().saveHistory();
+    get().saveHistory(`Delete ${describeShapes(get().shapes, [id])}`);
     set((state) => {
       const shapesMap = { ...state.shapes };
       const idsToRemove = new Set<string>([id]);
@@ -359,23 +432,32 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   },
 
   updateShape: (id, updates) => {
+    if (!get().shapes[id]) {
+      return;
+    }
+    get().saveHistory(
+      `Change ${describeProperties(updates)} of ${describeShapes(get().shapes, [id])}`,
+      editKey("shape", [id], updates)
+    );
     set((state) => {
       const shape = state.shapes[id];
       if (!shape) {
         return state;
       }
 
-      return {
-        shapes: {
-          ...state.shapes,
-          [id]: { ...shape, ...updates },
-        },
-      };
+      return relayout(
+        state,
+        { ...state.shapes, [id]: { ...shape, ...updates } },
+        state.shapeIds
+      );
     });
   },
 
   updateShapes: (ids, updates) => {
-    get().saveHistory();
+    get().saveHistory(
+      `Change ${describeProperties(updates)} of ${describeShapes(get().shapes, ids)}`,
+      editKey("shape", ids, updates)
+    );
     set((state) => {
       const newShapes = { ...state.shapes };
       for (const id of ids) {
@@ -383,7 +465,55 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
           newShapes[id] = { ...newShapes[id], ...updates } as Shape;
         }
       }
-      return { shapes: newShapes };
+      return relayout(state, newShapes, state.shapeIds);
+    });
+  },
+
+  updateLabels: (ids, updates) => {
+    get().saveHistory(
+      `Change ${describeProperties(updates)} of ${describeShapes(get().shapes, ids)}`,
+      editKey("label", ids, updates)
+    );
+    set((state) => {
+      const newShapes = { ...state.shapes };
+      for (const id of ids) {
+        const shape = newShapes[id];
+        if (shape?.type === "rectangle" || shape?.type === "ellipse") {
+          newShapes[id] = {
+            ...shape,
+            label: { ...DEFAULT_LABEL, ...shape.label, ...updates },
+          };
+        }
+      }
+      return relayout(state, newShapes, state.shapeIds);
+    });
+  },
+
+  updatePerson: (id, updates) => {
+    const target = get().shapes[id];
+    if (!(target?.type === "rectangle" || target?.type === "ellipse")) {
+      return;
+    }
+    get().saveHistory(
+      `Change ${describeProperties(updates)} of ${describeShapes(get().shapes, [id])}`,
+      editKey("person", [id], updates)
+    );
+    set((state) => {
+      const shape = state.shapes[id];
+      if (!(shape?.type === "rectangle" || shape?.type === "ellipse")) {
+        return state;
+      }
+      return relayout(
+        state,
+        {
+          ...state.shapes,
+          [id]: {
+            ...shape,
+            person: { ...EMPTY_PERSON, ...shape.person, ...updates },
+          },
+        },
+        state.shapeIds
+      );
     });
   },
 
@@ -404,12 +534,14 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   clearSelection: () => set({ selectedIds: new Set<string>() }),
 
   clearAll: () => {
-    get().saveHistory();
+    get().saveHistory("Clear chart");
     set({ shapes: {}, shapeIds: [], selectedIds: new Set() });
   },
 
   deleteSelected: () => {
-    get().saveHistory();
+    get().saveHistory(
+      `Delete ${describeShapes(get().shapes, [...get().selectedIds])}`
+    );
     const { canvasSize } = get();
     set((state) => {
       const { selectedIds, shapes, shapeIds } = state;
@@ -453,7 +585,7 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   },
 
   autoLayout: () => {
-    get().saveHistory();
+    get().saveHistory("Auto layout");
     const { canvasSize, shapes, shapeIds } = get();
     const currentShapesArray = getShapesArray(shapes, shapeIds);
     set((state) => {
@@ -479,23 +611,27 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   },
 
   copySelected: () => {
-    const { shapes, selectedIds } = get();
-    const selected = Array.from(selectedIds)
-      .map((id) => shapes[id])
-      .filter(Boolean);
-    set({ clipboard: selected });
+    const { shapes, shapeIds, selectedIds } = get();
+    set({
+      clipboard: getSelectionShapes(
+        getShapesArray(shapes, shapeIds),
+        selectedIds
+      ),
+    });
   },
 
   pasteClipboard: () => {
-    get().saveHistory();
-    set((state) => {
-      const { clipboard, shapes, shapeIds } = state;
-      if (clipboard.length === 0) {
-        return state;
-      }
+    const { clipboard, pasteShapes } = get();
+    if (clipboard.length > 0) {
+      pasteShapes(clipboard);
+    }
+  },
 
+  pasteShapes: (pasted) => {
+    get().saveHistory("Paste");
+    set((state) => {
       const { newShapesRecord, newShapeIds, newSelectedIds } =
-        processPasteShapes(clipboard, shapes, shapeIds);
+        processPasteShapes(pasted, state.shapes, state.shapeIds);
 
       return {
         shapes: newShapesRecord,
@@ -505,6 +641,39 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
     });
   },
 
+  pasteOutline: (text) => {
+    const entries = parseOutline(text);
+    if (entries.length === 0) {
+      return;
+    }
+
+    get().saveHistory("Paste outline");
+    set((state) => {
+      const current = getShapesArray(state.shapes, state.shapeIds);
+      // Pasted roots go right of the existing trees, which are ordered by x
+      const offset = Math.max(
+        0,
+        ...current
+          .filter((s) => s.type !== "elbow-connector")
+          .map((s) => s.x + s.width + 1)
+      );
+      const pasted = outlineToShapes([], entries).map((s) =>
+        s.type === "elbow-connector" ? s : { ...s, x: s.x + offset }
+      );
+
+      const shapesMap = { ...state.shapes };
+      const ids = [...state.shapeIds];
+      for (const s of pasted) {
+        shapesMap[s.id] = s;
+        ids.push(s.id);
+      }
+      return {
+        ...relayout(state, shapesMap, ids),
+        selectedIds: new Set(pasted.map((s) => s.id)),
+      };
+    });
+  },
+
   connectSelectedShapes: () => {
     const { selectedIds } = get();
     const selected = Array.from(selectedIds);
@@ -517,7 +686,6 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   },
 
   addParent: (shapeId) => {
-    get().saveHistory();
     const { shapes, shapeIds, canvasSize, layoutParams } = get();
     const currentShapesArray = getShapesArray(shapes, shapeIds);
 
@@ -529,6 +697,7 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
     if (currentShape.type !== "rectangle" && currentShape.type !== "ellipse") {
       return;
     }
+    get().saveHistory(`Add parent above ${describeShapes(shapes, [shapeId])}`);
 
     const currentLevel = currentShape.level;
     const parent = createRectangle(0, 0, currentLevel - 1);
@@ -577,7 +746,6 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   },
 
   addChild: (shapeId: string) => {
-    get().saveHistory();
     const { shapes, shapeIds, canvasSize, layoutParams } = get();
     const currentShapesArray = getShapesArray(shapes, shapeIds);
 
@@ -589,6 +757,7 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
     if (currentShape.type !== "rectangle" && currentShape.type !== "ellipse") {
       return;
     }
+    get().saveHistory(`Add child under ${describeShapes(shapes, [shapeId])}`);
 
     const currentLevel = currentShape.level;
     const child = createRectangle(0, 0, currentLevel + 1);
@@ -643,15 +812,15 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   },
 
   toggleChildLayout: (shapeId) => {
-    get().saveHistory();
+    const target = get().shapes[shapeId];
+    if (!(target?.type === "rectangle" || target?.type === "ellipse")) {
+      return;
+    }
+    get().saveHistory("Toggle stack");
     set((state) => {
       const shape = state.shapes[shapeId];
-      if (!shape) {
-        return state;
-      }
-
       // Narrowing type for discriminated union
-      if (shape.type !== "rectangle" && shape.type !== "ellipse") {
+      if (!(shape?.type === "rectangle" || shape?.type === "ellipse")) {
         return state;
       }
 
@@ -689,6 +858,79 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
     });
   },
 
+  // Move a box and its subtree under another box
+  reparentShape: (shapeId, parentId) => {
+    const { shapes, shapeIds } = get();
+    if (!canReparent(shapeId, parentId, getShapesArray(shapes, shapeIds))) {
+      return;
+    }
+    get().saveHistory(
+      `Move ${describeShapes(shapes, [shapeId])} under ${describeShapes(shapes, [parentId])}`
+    );
+    set((state) => {
+      const existing = state.shapeIds
+        .map((id) => state.shapes[id])
+        .find(
+          (s) =>
+            s.type === "elbow-connector" && s.endBinding?.shapeId === shapeId
+        );
+      // Keep the old connector's styling; a root gets a fresh one
+      const fresh = createOrgConnector(
+        parentId,
+        shapeId,
+        state.shapes[parentId].childLayout
+      );
+      const connector =
+        existing?.type === "elbow-connector"
+          ? {
+              ...existing,
+              startBinding: fresh.startBinding,
+              endBinding: fresh.endBinding,
+              siblingOrder: undefined,
+            }
+          : fresh;
+      // Without a sibling order the last connector is the last child
+      const ids = [
+        ...state.shapeIds.filter((id) => id !== connector.id),
+        connector.id,
+      ];
+      return {
+        ...relayout(state, { ...state.shapes, [connector.id]: connector }, ids),
+        selectedIds: new Set([shapeId]),
+      };
+    });
+  },
+
+  // Put a box at `index` among its siblings, renumbering all of them
+  moveSibling: (shapeId, index) => {
+    const { shapes, shapeIds } = get();
+    const connectors = getSiblingConnectors(
+      shapeId,
+      getShapesArray(shapes, shapeIds)
+    );
+    const current = connectors?.findIndex(
+      (c) => c.endBinding?.shapeId === shapeId
+    );
+    if (!connectors || current === undefined) {
+      return;
+    }
+    const target = Math.min(Math.max(index, 0), connectors.length - 1);
+    if (target === current) {
+      return;
+    }
+    const ordered = connectors.filter((_, i) => i !== current);
+    ordered.splice(target, 0, connectors[current]);
+
+    get().saveHistory(`Reorder ${describeShapes(shapes, [shapeId])}`);
+    set((state) => {
+      const newShapes = { ...state.shapes };
+      for (const [order, connector] of ordered.entries()) {
+        newShapes[connector.id] = { ...connector, siblingOrder: order };
+      }
+      return relayout(state, newShapes, state.shapeIds);
+    });
+  },
+
   getSelectedShapes: () => {
     const { shapes, selectedIds } = get();
     return Array.from(selectedIds)
@@ -702,6 +944,84 @@ export const useShapeStore = create<ShapeStore>((set, get) => ({
   },
 }));
 
+// The first change after saveHistory() becomes one undo step. Actions check
+// whether they can apply before calling it, so that change is their own
+useShapeStore.subscribe((state) => {
+  if (!pending) {
+    return;
+  }
+  const { label, snapshot, coalesceKey } = pending;
+  pending = null;
+  const entry = diffSnapshots(label, snapshot, state);
+  if (!entry) {
+    return;
+  }
+
+  const now = Date.now();
+  const previous = state.history[state.historyIndex - 1];
+  const merge =
+    previous &&
+    coalesceKey !== undefined &&
+    lastEdit?.coalesceKey === coalesceKey &&
+    now - lastEdit.time < COALESCE_MS;
+  lastEdit = coalesceKey === undefined ? null : { coalesceKey, time: now };
+
+  // Recording a new step drops anything that could still be redone
+  const history = merge
+    ? [
+        ...state.history.slice(0, state.historyIndex - 1),
+        mergeEntries(previous, entry),
+      ]
+    : [...state.history.slice(0, state.historyIndex), entry];
+  const dropped = Math.max(history.length - MAX_HISTORY, 0);
+  useShapeStore.setState({
+    history: history.slice(dropped),
+    historyIndex: history.length - dropped,
+    historyOffset: state.historyOffset + dropped,
+  });
+});
+
+// e.g. "shape:a,b:stroke,strokeWidth" for a stroke edit of shapes a and b
+function editKey(kind: string, ids: string[], updates: object): string {
+  return `${kind}:${ids.join(",")}:${Object.keys(updates).sort().join(",")}`;
+}
+
+// Entries hold shapes positioned for the canvas size at the time, so undo and
+// redo lay the restored chart out again for the current one
+function restore(
+  state: Pick<ShapeStore, "canvasSize">,
+  snapshot: HistorySnapshot
+): HistorySnapshot {
+  return {
+    ...snapshot,
+    ...relayout(
+      { canvasSize: state.canvasSize, layoutParams: snapshot.layoutParams },
+      snapshot.shapes,
+      snapshot.shapeIds
+    ),
+  };
+}
+
+// Re-run the tree layout so content-driven box sizes and connectors stay in sync
+function relayout(
+  state: Pick<ShapeStore, "canvasSize" | "layoutParams">,
+  shapes: Record<string, Shape>,
+  shapeIds: string[]
+): Pick<ShapeStore, "shapes" | "shapeIds"> {
+  const layouted = layoutShapesByLevel(
+    getShapesArray(shapes, shapeIds),
+    state.canvasSize.width,
+    state.canvasSize.height,
+    state.layoutParams
+  );
+  const final = updateAllConnectors(layouted);
+  const newShapesRecord: Record<string, Shape> = {};
+  for (const s of final) {
+    newShapesRecord[s.id] = s;
+  }
+  return { shapes: newShapesRecord, shapeIds: final.map((s) => s.id) };
+}
+
 function updateChildConnectors(
   shapes: Record<string, Shape>,
   parentId: string,
@@ -753,37 +1073,23 @@ function processPasteShapes(
     };
   });
 
-  // Second pass: Update bindings and add to record
+  // Second pass: point connectors at the pasted copies of their shapes
+  rebindConnectors(newClipboardShapes, idMap);
+  const pastedIds = new Set(idMap.values());
+
   for (const s of newClipboardShapes) {
     let finalShape = s;
 
-    // If it's a connector, update bindings if target was also pasted
+    // Shapes copied from another chart may be bound to boxes that are not here
     if (finalShape.type === "elbow-connector") {
-      const connector = finalShape as ElbowConnectorShape;
-      const startBinding = connector.startBinding;
-      const endBinding = connector.endBinding;
-
-      let newStartBinding = startBinding;
-      let newEndBinding = endBinding;
-
-      if (startBinding && idMap.has(startBinding.shapeId)) {
-        newStartBinding = {
-          ...startBinding,
-          shapeId: idMap.get(startBinding.shapeId) as string,
-        };
-      }
-
-      if (endBinding && idMap.has(endBinding.shapeId)) {
-        newEndBinding = {
-          ...endBinding,
-          shapeId: idMap.get(endBinding.shapeId) as string,
-        };
-      }
-
+      const keepBinding = (binding: ElbowConnectorShape["startBinding"]) =>
+        binding && (pastedIds.has(binding.shapeId) || binding.shapeId in shapes)
+          ? binding
+          : undefined;
       finalShape = {
-        ...connector,
-        startBinding: newStartBinding,
-        endBinding: newEndBinding,
+        ...finalShape,
+        startBinding: keepBinding(finalShape.startBinding),
+        endBinding: keepBinding(finalShape.endBinding),
       };
     }
 
@@ -0,0 +1,73 @@
+// Change notifications between tabs (and within this tab) so open chart
+// lists and editors stay in sync with storage without polling.
+export type ChartChange =
+  // Chart data was written; revision is the one now in storage
+  | { type: "saved"; chartId: string; revision: number }
+  // The chart list changed without new chart data (rename, delete)
+  | { type: "index" };
+
+type ChartChangeListener = (change: ChartChange, remote: boolean) => void;
+
+const CHANNEL_NAME = "baganify";
+// Fallback for browsers without BroadcastChannel: other tabs get a
+// `storage` event whenever this key is written
+const STORAGE_KEY = "baganify_sync";
+
+const listeners = new Set<ChartChangeListener>();
+let channel: BroadcastChannel | null = null;
+let connected = false;
+
+function emit(change: ChartChange, remote: boolean) {
+  for (const listener of listeners) {
+    listener(change, remote);
+  }
+}
+
+function connect() {
+  if (connected) {
+    return;
+  }
+  connected = true;
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<ChartChange>) =>
+      emit(event.data, true);
+    return;
+  }
+  window.addEventListener("storage", (event) => {
+    if (event.key === STORAGE_KEY && event.newValue) {
+      emit(JSON.parse(event.newValue).change, true);
+    }
+  });
+}
+
+/**
+ * Tell this tab and every other open tab that stored charts changed.
+ */
+export function publishChartChange(change: ChartChange): void {
+  emit(change, false);
+  connect();
+  if (channel) {
+    channel.postMessage(change);
+  } else {
+    // The timestamp makes repeated identical changes still fire the event
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ change, at: Date.now() })
+    );
+  }
+}
+
+/**
+ * Listen for chart changes. Returns an unsubscribe function, so it can be
+ * returned straight from an effect.
+ */
+export function subscribeToChartChanges(
+  listener: ChartChangeListener
+): () => void {
+  connect();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -9,9 +9,15 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as VRouteImport } from './routes/v'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as EChartIdRouteImport } from './routes/e.$chartId'
 
+const VRoute = VRouteImport.update({
+  id: '/v',
+  path: '/v',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -25,32 +31,43 @@ const EChartIdRoute = EChartIdRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/v': typeof VRoute
   '/e/$chartId': typeof EChartIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/v': typeof VRoute
   '/e/$chartId': typeof EChartIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/v': typeof VRoute
   '/e/$chartId': typeof EChartIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/e/$chartId'
+  fullPaths: '/' | '/v' | '/e/$chartId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/e/$chartId'
-  id: '__root__' | '/' | '/e/$chartId'
+  to: '/' | '/v' | '/e/$chartId'
+  id: '__root__' | '/' | '/v' | '/e/$chartId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  VRoute: typeof VRoute
   EChartIdRoute: typeof EChartIdRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/v': {
+      id: '/v'
+      path: '/v'
+      fullPath: '/v'
+      preLoaderRoute: typeof VRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -70,6 +87,7 @@ declare module '@tanstack/react-router' {
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  VRoute: VRoute,
   EChartIdRoute: EChartIdRoute,
 }
 export const routeTree = rootRouteImport
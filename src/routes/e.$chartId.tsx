@@ -1,91 +1,452 @@
 // biome-ignore lint/style/useFilenamingConvention: route file
-import { createFileRoute } from "@tanstack/react-router";
-import { useEffect, useRef } from "react";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
 import { Canvas } from "../components/canvas";
+import { ChartNotFound } from "../components/chart-not-found";
+import { ConflictBanner } from "../components/conflict-banner";
+import { DesktopNotice } from "../components/desktop-notice";
 import { ExportPanel } from "../components/export-panel";
+import { FileMenu } from "../components/file-menu";
+import { OutlinePane } from "../components/outline-pane";
 import { Sidebar } from "../components/sidebar";
 import { Toolbar } from "../components/toolbar";
-import { getChart, saveChart } from "../lib/storage";
-import { useShapeStore } from "../lib/store/shapes";
+import {
+  ChartFileError,
+  downloadChartFile,
+  getLinkedFile,
+  linkFile,
+  type OpenedChartFile,
+  openChartFile,
+  saveChartFileAs,
+  supportsFileSystemAccess,
+  writeChartFile,
+} from "../lib/chart-file";
+import { showRepairs } from "../lib/repairs";
+import { createShareLink } from "../lib/share";
+import {
+  ChartConflictError,
+  type ChartData,
+  createChartId,
+  getAllCharts,
+  getChart,
+  getSaveErrorMessage,
+  getTrashedCharts,
+  restoreChart,
+  saveChart,
+  saveViewport,
+} from "../lib/storage";
+import { useShapeStore, type Viewport } from "../lib/store/shapes";
+import { subscribeToChartChanges } from "../lib/sync";
 
 export const Route = createFileRoute("/e/$chartId")({
   component: EditorPage,
 });
 
+type EditorState = Omit<ChartData, "schemaVersion">;
+
+// Links past this length get truncated by some chat and mail apps
+const LONG_LINK_LENGTH = 8000;
+
 function EditorPage() {
   const { chartId } = Route.useParams();
-  const { shapes, shapeIds, layoutParams, viewport, loadChart, reset } =
-    useShapeStore();
+  const { shapes, shapeIds, layoutParams, viewport, reset } = useShapeStore();
+  const navigate = useNavigate();
 
   const isLoaded = useRef(false);
+  // Revision this tab last loaded or saved; storage moving past it means
+  // another tab saved the chart
+  const revision = useRef(0);
+  // Store contents as last loaded or saved, to skip no-op saves and to tell
+  // whether this tab has unsaved edits
+  const saved = useRef<EditorState | null>(null);
+  const [chartName, setChartName] = useState("Untitled Chart");
+  const [conflict, setConflict] = useState(false);
+  // Set when there is no chart to edit under this id
+  const [missing, setMissing] = useState<"trashed" | "unknown" | null>(null);
+  // File on disk this chart was opened from or saved to, kept in step by
+  // autosave
+  const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(
+    null
+  );
 
   // 1. Load Chart on Mount or ID change
   useEffect(() => {
     isLoaded.current = false;
-    const data = getChart(chartId);
-    if (data) {
-      loadChart({
-        shapes: data.shapes,
-        shapeIds: data.shapeIds,
-        layoutParams: data.layoutParams,
-        viewport: data.viewport,
-      });
-    } else {
-      // New chart or not found: Reset store to empty
-      reset();
-    }
-    isLoaded.current = true;
-  }, [chartId, loadChart, reset]);
+    setConflict(false);
+    setMissing(null);
+    setFileHandle(getLinkedFile(chartId));
+    let cancelled = false;
+    Promise.all([getChart(chartId), getAllCharts()]).then(
+      async ([chart, charts]) => {
+        // A newer chart was opened while this one was loading
+        if (cancelled) {
+          return;
+        }
+        const meta = charts.find((c) => c.id === chartId);
+        if (!(chart && meta)) {
+          // Never create charts for unknown ids: autosave stays off
+          reset();
+          setMissing(await getMissingReason(chartId));
+          return;
+        }
+        saved.current = showChart(chart.data, chart.data.viewport);
+        showRepairs(chart.fixes);
+        revision.current = meta.revision;
+        setChartName(meta.name);
+        isLoaded.current = true;
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [chartId, reset]);
 
-  // 2. Auto-Save on changes
+  // 2. Follow saves and renames from other tabs
+  useEffect(
+    () =>
+      subscribeToChartChanges(async (change, remote) => {
+        if (!(remote && isLoaded.current)) {
+          return;
+        }
+        if (change.type === "index") {
+          const meta = (await getAllCharts()).find((c) => c.id === chartId);
+          if (meta) {
+            setChartName(meta.name);
+          } else {
+            // Deleted in another tab
+            isLoaded.current = false;
+            setMissing(await getMissingReason(chartId));
+          }
+          return;
+        }
+        if (
+          change.chartId !== chartId ||
+          change.revision === revision.current
+        ) {
+          return;
+        }
+        if (hasUnsavedEdits(saved.current)) {
+          setConflict(true);
+          return;
+        }
+        // Nothing to lose here: take the other tab's version live
+        const chart = await getChart(chartId);
+        if (chart) {
+          saved.current = showChart(
+            chart.data,
+            useShapeStore.getState().viewport
+          );
+          revision.current = change.revision;
+        }
+      }),
+    [chartId]
+  );
+
+  // 3. Auto-Save on changes
   useEffect(() => {
-    if (!isLoaded.current) {
+    const data = { shapes, shapeIds, layoutParams, viewport };
+    if (!isLoaded.current || conflict || isSameState(saved.current, data)) {
       return;
     }
 
-    const timer = setTimeout(() => {
-      if (isLoaded.current) {
-        saveChart(chartId, "Untitled Chart", {
-          shapes,
-          shapeIds,
-          layoutParams,
-          viewport,
-        });
+    const timer = setTimeout(async () => {
+      try {
+        if (isSameContent(saved.current, data)) {
+          await saveViewport(chartId, viewport);
+          saved.current = data;
+          return;
+        }
+        const meta = await saveChart(
+          chartId,
+          chartName,
+          data,
+          revision.current
+        );
+        revision.current = meta.revision;
+        saved.current = data;
+        if (fileHandle) {
+          await writeToLinkedFile(fileHandle, chartName, data);
+        }
+      } catch (error) {
+        if (error instanceof ChartConflictError) {
+          setConflict(true);
+          return;
+        }
+        // One toast per failure kind instead of one per autosave
+        const message = getSaveErrorMessage(error);
+        toast.error(message, { id: message });
       }
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [shapes, shapeIds, layoutParams, viewport, chartId]);
+  }, [
+    shapes,
+    shapeIds,
+    layoutParams,
+    viewport,
+    chartId,
+    chartName,
+    conflict,
+    fileHandle,
+  ]);
+
+  const handleReload = async () => {
+    try {
+      const [chart, charts] = await Promise.all([
+        getChart(chartId),
+        getAllCharts(),
+      ]);
+      if (chart) {
+        saved.current = showChart(
+          chart.data,
+          useShapeStore.getState().viewport
+        );
+      }
+      revision.current =
+        charts.find((c) => c.id === chartId)?.revision ?? revision.current;
+      setConflict(false);
+    } catch (error) {
+      console.error("Failed to reload chart", error);
+      toast.error("Could not reload the chart");
+    }
+  };
+
+  const handleRestoreChart = async () => {
+    try {
+      await restoreChart(chartId);
+      const [chart, charts] = await Promise.all([
+        getChart(chartId),
+        getAllCharts(),
+      ]);
+      const meta = charts.find((c) => c.id === chartId);
+      if (chart && meta) {
+        saved.current = showChart(chart.data, chart.data.viewport);
+        revision.current = meta.revision;
+        setChartName(meta.name);
+        setMissing(null);
+        isLoaded.current = true;
+      }
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+    }
+  };
+
+  const handleFork = async () => {
+    const id = createChartId();
+    try {
+      await saveChart(id, `${chartName} (my copy)`, getEditorState());
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    navigate({ to: "/e/$chartId", params: { chartId: id } });
+  };
+
+  const handleOpenFile = async () => {
+    let opened: OpenedChartFile | null;
+    try {
+      opened = await openChartFile();
+    } catch (error) {
+      if (error instanceof ChartFileError) {
+        toast.error(error.message);
+      } else {
+        console.error("Failed to open chart file", error);
+        toast.error("Could not open the file");
+      }
+      return;
+    }
+    if (!opened) {
+      return;
+    }
+
+    const id = createChartId();
+    try {
+      await saveChart(id, opened.name, opened.data);
+    } catch (error) {
+      toast.error(getSaveErrorMessage(error));
+      return;
+    }
+    if (opened.handle) {
+      linkFile(id, opened.handle);
+    }
+    showRepairs(opened.fixes);
+    navigate({ to: "/e/$chartId", params: { chartId: id } });
+  };
+
+  const handleSaveFileAs = async () => {
+    if (!supportsFileSystemAccess()) {
+      downloadChartFile(chartName, getEditorState());
+      return;
+    }
+    let handle: FileSystemFileHandle | null;
+    try {
+      handle = await saveChartFileAs(chartName, getEditorState());
+    } catch (error) {
+      console.error("Failed to save file", error);
+      toast.error("Could not save the file");
+      return;
+    }
+    if (handle) {
+      linkFile(chartId, handle);
+      setFileHandle(handle);
+      toast.success(`Saved to ${handle.name}`);
+    }
+  };
+
+  const handleSaveFile = async () => {
+    if (!fileHandle) {
+      await handleSaveFileAs();
+      return;
+    }
+    try {
+      if (await writeChartFile(fileHandle, chartName, getEditorState(), true)) {
+        toast.success(`Saved to ${fileHandle.name}`);
+      }
+    } catch (error) {
+      console.error("Failed to write file", error);
+      toast.error(`Could not write to ${fileHandle.name}`);
+    }
+  };
+
+  const handleShare = async () => {
+    let link: string;
+    try {
+      link = await createShareLink(chartName, getEditorState());
+      await navigator.clipboard.writeText(link);
+    } catch (error) {
+      console.error("Failed to copy share link", error);
+      toast.error("Could not copy the share link");
+      return;
+    }
+    toast.success("Share link copied", {
+      description:
+        link.length > LONG_LINK_LENGTH
+          ? "Photos make this link very long; some apps may cut it off."
+          : "Anyone with the link can view the chart. Nothing is uploaded.",
+    });
+  };
 
   return (
-    <div className="hidden h-dvh w-full overflow-hidden bg-[#f8f9fa] md:flex">
-      {/* Left Sidebar - Shared Component */}
-      <Sidebar currentChartId={chartId} />
-
-      {/* Main Content Area */}
-      <div className="relative h-full flex-1">
-        {/* Canvas Layer */}
-        <div className="absolute inset-0 z-0">
-          <Canvas />
-        </div>
-
-        {/* Overlay UI Layer */}
-        <div className="absolute top-4 left-1/2 z-10 -translate-x-1/2">
-          <Toolbar />
-        </div>
-
-        {/* Export Panel - Floating Bottom Left */}
-        <div className="absolute bottom-4 left-4 z-10">
-          <ExportPanel />
-        </div>
-
-        {/* Shape count badge */}
-        {shapeIds.length > 0 && (
-          <div className="absolute right-4 bottom-4 z-10 rounded-lg border border-gray-200 bg-white px-2 py-1 text-gray-500 text-xs shadow-sm">
-            {shapeIds.length} shape{shapeIds.length !== 1 ? "s" : ""}
+    <>
+      <DesktopNotice />
+      <div className="hidden h-dvh w-full overflow-hidden bg-[#f8f9fa] md:flex">
+        {/* Left Sidebar - Shared Component */}
+        <Sidebar
+          currentChartId={chartId}
+          onRename={(id, name) => id === chartId && setChartName(name)}
+        />
+
+        {/* Main Content Area */}
+        {missing ? (
+          <div className="relative h-full flex-1">
+            <ChartNotFound
+              onRestore={handleRestoreChart}
+              trashed={missing === "trashed"}
+            />
+          </div>
+        ) : (
+          <div className="relative h-full flex-1">
+            {/* Canvas Layer */}
+            <div className="absolute inset-0 z-0">
+              <Canvas />
+            </div>
+
+            {/* Overlay UI Layer */}
+            <div className="absolute top-4 left-4 z-10">
+              <FileMenu
+                fileName={fileHandle?.name ?? null}
+                onOpen={handleOpenFile}
+                onSave={handleSaveFile}
+                onSaveAs={handleSaveFileAs}
+                onShare={handleShare}
+              />
+            </div>
+
+            <div className="absolute top-4 left-1/2 z-10 -translate-x-1/2">
+              <Toolbar />
+            </div>
+
+            {conflict && (
+              <div className="absolute top-20 left-1/2 z-10 -translate-x-1/2">
+                <ConflictBanner onFork={handleFork} onReload={handleReload} />
+              </div>
+            )}
+
+            {/* Export Panel - Floating Bottom Left */}
+            <div className="absolute bottom-4 left-4 z-10">
+              <ExportPanel chartName={chartName} />
+            </div>
+
+            {/* Shape count badge */}
+            {shapeIds.length > 0 && (
+              <div className="absolute right-4 bottom-4 z-10 rounded-lg border border-gray-200 bg-white px-2 py-1 text-gray-500 text-xs shadow-sm">
+                {shapeIds.length} shape{shapeIds.length !== 1 ? "s" : ""}
+              </div>
+            )}
           </div>
         )}
+
+        {/* Right Pane - Text outline synced with the canvas */}
+        {!missing && <OutlinePane />}
       </div>
-    </div>
+    </>
+  );
+}
+
+function getEditorState(): EditorState {
+  const { shapes, shapeIds, layoutParams, viewport } = useShapeStore.getState();
+  return { shapes, shapeIds, layoutParams, viewport };
+}
+
+// Load chart data into the editor and return the resulting store contents
+function showChart(data: ChartData, viewport: Viewport): EditorState {
+  useShapeStore.getState().loadChart({
+    shapes: data.shapes,
+    shapeIds: data.shapeIds,
+    layoutParams: data.layoutParams,
+    viewport,
+  });
+  return getEditorState();
+}
+
+async function getMissingReason(chartId: string) {
+  const trashed = await getTrashedCharts();
+  return trashed.some((c) => c.id === chartId) ? "trashed" : "unknown";
+}
+
+// Autosave can't ask for write access, which needs a click, so a file
+// that lost it waits for an explicit Save
+async function writeToLinkedFile(
+  handle: FileSystemFileHandle,
+  name: string,
+  data: EditorState
+) {
+  try {
+    if (!(await writeChartFile(handle, name, data, false))) {
+      toast.info(`Save to keep ${handle.name} up to date`, { id: handle.name });
+    }
+  } catch (error) {
+    console.error("Failed to write file", error);
+    toast.error(`Could not write to ${handle.name}`, { id: handle.name });
+  }
+}
+
+function isSameState(a: EditorState | null, b: EditorState): boolean {
+  return isSameContent(a, b) && a?.viewport === b.viewport;
+}
+
+// Panning and zooming alone are not edits: they keep the revision, so they
+// never cause a conflict here or in another tab
+function isSameContent(a: EditorState | null, b: EditorState): boolean {
+  return (
+    a !== null &&
+    a.shapes === b.shapes &&
+    a.shapeIds === b.shapeIds &&
+    a.layoutParams === b.layoutParams
   );
 }
+
+function hasUnsavedEdits(saved: EditorState | null): boolean {
+  return !isSameContent(saved, getEditorState());
+}
@@ -1,64 +1,279 @@
-import { DesktopIcon } from "@phosphor-icons/react";
-import { createFileRoute } from "@tanstack/react-router";
-import { Canvas } from "../components/canvas";
-import { ExportPanel } from "../components/export-panel";
-import { Sidebar } from "../components/sidebar";
-import { Toolbar } from "../components/toolbar";
-import { useShapeStore } from "../lib/store/shapes";
+import {
+  CopyIcon,
+  DotsThreeIcon,
+  MagnifyingGlassIcon,
+  PencilSimpleIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@phosphor-icons/react";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+import { ChartThumbnail } from "../components/chart-thumbnail";
+import { TrashSection } from "../components/trash-section";
+import { Button } from "../components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../components/ui/dropdown-menu";
+import { Input } from "../components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import { SORT_OPTIONS, useCharts } from "../hooks/use-charts";
+import type { Shape } from "../lib/shapes/types";
+import { type ChartMeta, getChart } from "../lib/storage";
 
-export const Route = createFileRoute("/")({ component: ShapeBuilder });
+export const Route = createFileRoute("/")({ component: Dashboard });
 
-function ShapeBuilder() {
-  const { shapeIds } = useShapeStore();
+function Dashboard() {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const {
+    charts,
+    visibleCharts,
+    query,
+    setQuery,
+    sort,
+    setSort,
+    handleNewChart,
+    handleRename,
+    handleDuplicate,
+    handleDelete,
+  } = useCharts();
 
   return (
-    <>
-      <div className="flex h-dvh w-full items-center justify-center bg-gray-50 px-4 text-center md:hidden">
-        <div className="max-w-md space-y-4 rounded-xl border border-gray-200 bg-white p-8 shadow-sm">
-          <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-blue-50 text-blue-600">
-            <DesktopIcon size={32} />
-          </div>
-          <div className="space-y-2">
-            <h2 className="font-semibold text-gray-900 text-lg">
-              Desktop Recommended
-            </h2>
-            <p className="text-gray-500 text-sm">
-              This application is optimized for desktop and tablet screens to
-              provide the best diagramming experience. Please open it on a
-              larger device.
-            </p>
-          </div>
+    <div className="min-h-dvh w-full bg-[#f8f9fa] text-xs">
+      <header className="flex h-14 items-center gap-3 border-[#E5E5E5] border-b bg-white px-6">
+        <div className="flex items-center gap-2 px-2">
+          <img
+            alt="Baganify Logo"
+            className="h-5 w-5 opacity-90"
+            height={20}
+            src="/favicon.svg"
+            width={20}
+          />
+          <span className="font-medium text-gray-700">Baganify</span>
         </div>
-      </div>
-      <div className="hidden h-dvh w-full overflow-hidden bg-[#f8f9fa] md:flex">
-        {/* Left Sidebar - Shared Component */}
-        <Sidebar />
+        <div className="relative ml-auto w-56">
+          <MagnifyingGlassIcon
+            className="absolute top-1/2 left-2 -translate-y-1/2 text-gray-400"
+            size={12}
+          />
+          <Input
+            className="h-8 bg-white pl-6 text-xs md:text-xs"
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search charts"
+            value={query}
+          />
+        </div>
+        <Select
+          items={SORT_OPTIONS}
+          onValueChange={(value) => value && setSort(value)}
+          value={sort}
+        >
+          <SelectTrigger
+            className="h-8 bg-white text-xs"
+            size="sm"
+            title="Sort charts"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleNewChart} size="sm">
+          <PlusIcon />
+          New chart
+        </Button>
+      </header>
 
-        {/* Main Content Area */}
-        <div className="relative h-full flex-1">
-          {/* Canvas Layer */}
-          <div className="absolute inset-0 z-0">
-            <Canvas />
-          </div>
+      <main className="mx-auto max-w-6xl space-y-4 px-6 py-8">
+        <h1 className="font-semibold text-gray-900 text-lg">Your charts</h1>
 
-          {/* Overlay UI Layer */}
-          <div className="absolute top-4 left-1/2 z-10 -translate-x-1/2">
-            <Toolbar />
+        {charts.length === 0 && (
+          <div className="space-y-3 rounded-xl border border-gray-300 border-dashed py-16 text-center">
+            <p className="text-gray-500 text-sm">No charts yet</p>
+            <Button onClick={handleNewChart} size="sm" variant="outline">
+              <PlusIcon />
+              Create your first chart
+            </Button>
           </div>
+        )}
+        {charts.length > 0 && visibleCharts.length === 0 && (
+          <p className="py-16 text-center text-gray-400 italic">
+            No charts match “{query.trim()}”
+          </p>
+        )}
 
-          {/* Export Panel - Floating Bottom Left */}
-          <div className="absolute bottom-4 left-4 z-10">
-            <ExportPanel />
-          </div>
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(220px,1fr))] gap-4">
+          {visibleCharts.map((chart) => (
+            <ChartCard
+              chart={chart}
+              key={chart.id}
+              onDelete={() => handleDelete(chart.id)}
+              onDuplicate={() => handleDuplicate(chart.id)}
+              onRename={(name) => {
+                setRenamingId(null);
+                handleRename(chart.id, name);
+              }}
+              onStartRename={() => setRenamingId(chart.id)}
+              renaming={renamingId === chart.id}
+            />
+          ))}
+        </div>
+
+        <div className="max-w-xs">
+          <TrashSection />
+        </div>
+      </main>
+    </div>
+  );
+}
 
-          {/* Shape count badge */}
-          {shapeIds.length > 0 && (
-            <div className="absolute right-4 bottom-4 z-10 rounded-lg border border-gray-200 bg-white px-2 py-1 text-gray-500 text-xs shadow-sm">
-              {shapeIds.length} shape{shapeIds.length !== 1 ? "s" : ""}
-            </div>
+function ChartCard({
+  chart,
+  renaming,
+  onStartRename,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  chart: ChartMeta;
+  renaming: boolean;
+  onStartRename: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="group overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm transition-shadow hover:shadow-md">
+      <Link
+        className="block border-gray-100 border-b bg-[#fcfcfc]"
+        params={{ chartId: chart.id }}
+        to="/e/$chartId"
+      >
+        {/* A new revision remounts the preview so it reloads */}
+        <ChartPreview chartId={chart.id} key={chart.revision} />
+      </Link>
+      <div className="flex items-center gap-2 px-3 py-2">
+        <div className="min-w-0 flex-1">
+          {renaming ? (
+            <Input
+              autoFocus
+              className="h-6 px-1.5 text-xs md:text-xs"
+              defaultValue={chart.name}
+              onBlur={(e) => onRename(e.target.value)}
+              onFocus={(e) => e.target.select()}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.currentTarget.blur();
+                }
+                if (e.key === "Escape") {
+                  // Blur saves, so restore the old name first
+                  e.currentTarget.value = chart.name;
+                  e.currentTarget.blur();
+                }
+              }}
+            />
+          ) : (
+            <Link
+              className="block truncate font-medium text-gray-900"
+              params={{ chartId: chart.id }}
+              to="/e/$chartId"
+            >
+              {chart.name}
+            </Link>
           )}
+          <div className="text-gray-400">
+            Edited {formatRelativeTime(chart.updatedAt)}
+          </div>
         </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+            title="Chart actions"
+          >
+            <DotsThreeIcon size={16} weight="bold" />
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-36">
+            <DropdownMenuItem className="text-xs" onClick={onStartRename}>
+              <PencilSimpleIcon />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem className="text-xs" onClick={onDuplicate}>
+              <CopyIcon />
+              Duplicate
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="text-xs"
+              onClick={onDelete}
+              variant="destructive"
+            >
+              <TrashIcon />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
-    </>
+    </div>
+  );
+}
+
+function ChartPreview({ chartId }: { chartId: string }) {
+  const [shapes, setShapes] = useState<Shape[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getChart(chartId).then((loaded) => {
+      if (!cancelled) {
+        setShapes(
+          loaded
+            ? loaded.data.shapeIds
+                .map((id) => loaded.data.shapes[id])
+                .filter(Boolean)
+            : []
+        );
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [chartId]);
+
+  return shapes ? (
+    <ChartThumbnail className="h-40 w-full p-3" shapes={shapes} />
+  ) : (
+    <div className="h-40 w-full animate-pulse bg-gray-100" />
   );
 }
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60 * 1000],
+  ["month", 30 * 24 * 60 * 60 * 1000],
+  ["week", 7 * 24 * 60 * 60 * 1000],
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+// "3 days ago", "yesterday", "just now"
+function formatRelativeTime(timestamp: number): string {
+  const elapsed = Date.now() - timestamp;
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+  for (const [unit, ms] of RELATIVE_UNITS) {
+    if (elapsed >= ms) {
+      return format.format(-Math.floor(elapsed / ms), unit);
+    }
+  }
+  return "just now";
+}
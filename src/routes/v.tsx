@@ -0,0 +1,125 @@
+import { EyeIcon, WarningIcon } from "@phosphor-icons/react";
+import {
+  createFileRoute,
+  Link,
+  useLocation,
+  useNavigate,
+} from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ChartViewer } from "../components/chart-viewer";
+import { Button } from "../components/ui/button";
+import { showRepairs } from "../lib/repairs";
+import { readShareLink, type SharedChart, ShareLinkError } from "../lib/share";
+import { createChartId, getSaveErrorMessage, saveChart } from "../lib/storage";
+
+export const Route = createFileRoute("/v")({ component: ViewerPage });
+
+// Read-only view of a chart shared as a link; the chart is in the hash
+function ViewerPage() {
+  const hash = useLocation({ select: (location) => location.hash });
+  const navigate = useNavigate();
+  const [shared, setShared] = useState<SharedChart | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setShared(null);
+    setError(null);
+    let cancelled = false;
+    readShareLink(hash)
+      .then((chart) => {
+        if (!cancelled) {
+          setShared(chart);
+          showRepairs(chart.fixes);
+        }
+      })
+      .catch((err) => {
+        if (!(err instanceof ShareLinkError)) {
+          console.error("Failed to open share link", err);
+        }
+        if (!cancelled) {
+          setError(
+            err instanceof ShareLinkError
+              ? err.message
+              : "This share link could not be opened."
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  const handleImport = async () => {
+    if (!shared) {
+      return;
+    }
+    const id = createChartId();
+    try {
+      await saveChart(id, shared.name, shared.data);
+    } catch (err) {
+      toast.error(getSaveErrorMessage(err));
+      return;
+    }
+    navigate({ to: "/e/$chartId", params: { chartId: id } });
+  };
+
+  const shapes = shared
+    ? shared.data.shapeIds.map((id) => shared.data.shapes[id]).filter(Boolean)
+    : [];
+
+  return (
+    <div className="flex h-dvh w-full flex-col bg-[#f8f9fa] text-xs">
+      <header className="flex h-14 flex-none items-center gap-3 border-[#E5E5E5] border-b bg-white px-4">
+        <Link
+          className="flex items-center gap-2 rounded-lg px-2 py-2 transition-colors hover:bg-gray-100"
+          to="/"
+        >
+          <img
+            alt="Baganify Logo"
+            className="h-5 w-5 opacity-90"
+            height={20}
+            src="/favicon.svg"
+            width={20}
+          />
+          <span className="font-medium text-gray-700">Baganify</span>
+        </Link>
+        {shared && (
+          <>
+            <span className="truncate font-medium text-gray-900">
+              {shared.name}
+            </span>
+            <span className="flex flex-none items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-gray-500">
+              <EyeIcon size={12} />
+              Read-only
+            </span>
+            <Button className="ml-auto" onClick={handleImport} size="sm">
+              Import into my charts
+            </Button>
+          </>
+        )}
+      </header>
+
+      <main className="relative min-h-0 flex-1">
+        {shared && <ChartViewer shapes={shapes} />}
+        {error && (
+          <div className="flex h-full items-center justify-center px-4">
+            <div className="max-w-sm space-y-3 rounded-xl border border-gray-200 bg-white p-6 text-center shadow-sm">
+              <WarningIcon className="mx-auto text-amber-500" size={28} />
+              <p className="text-gray-700 text-sm">{error}</p>
+              <p className="text-gray-500">
+                Ask for the link again, and make sure it was copied in full.
+              </p>
+              <Link
+                className="inline-block text-blue-600 hover:underline"
+                to="/"
+              >
+                Go to my charts
+              </Link>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}